@@ -1,5 +1,9 @@
 declare type RequestDataValueType = string | number | boolean | readonly (string | number | boolean)[]
 
+/**
+ * Removes the `null` and `undefined` values from the given request data.
+ * @deprecated Use `serializeRequestData` or `serializeQueryParams`, which also format dates, arrays and nested objects.
+ */
 export const cleanupRequestData = (data: { [key: string]: unknown }) => {
     const dataKeys: Array<string> = Object.keys(data)
     const cleanedData: { [param: string]: RequestDataValueType } = {}
@@ -0,0 +1,132 @@
+import { HttpParams } from '@angular/common/http'
+import { LocalDate, LocalDateTime } from '@js-joda/core'
+import { DateTime } from 'luxon'
+import { parseQueryParams, serializeQueryParams, serializeRequestData } from './request-serializer'
+
+describe('request-serializer', () => {
+    describe('serializeQueryParams', () => {
+        it('should omit null, undefined and empty values', () => {
+            expect(serializeQueryParams({ a: 'x', b: null, c: undefined, d: '', e: [], f: 0, g: false })).toEqual({
+                a: 'x',
+                f: '0',
+                g: 'false'
+            })
+        })
+
+        it('should keep empty strings when configured', () => {
+            expect(serializeQueryParams({ a: '' }, { emptyStrings: 'keep' })).toEqual({ a: '' })
+        })
+
+        it('should format dates of the supported date libraries in ISO 8601', () => {
+            expect(
+                serializeQueryParams({
+                    date: new Date(Date.UTC(2024, 0, 31, 12, 30)),
+                    luxon: DateTime.fromISO('2024-01-31T12:30:00.000+01:00', { setZone: true }),
+                    localDate: LocalDate.of(2024, 1, 31),
+                    localDateTime: LocalDateTime.of(2024, 1, 31, 12, 30)
+                })
+            ).toEqual({
+                date: '2024-01-31T12:30:00.000Z',
+                luxon: '2024-01-31T12:30:00.000+01:00',
+                localDate: '2024-01-31',
+                localDateTime: '2024-01-31T12:30'
+            })
+        })
+
+        it('should use the configured value serializers first', () => {
+            const luxonDate = (value: unknown) => (DateTime.isDateTime(value) ? value.toISODate() : undefined)
+
+            expect(
+                serializeQueryParams(
+                    { from: DateTime.fromISO('2024-01-31T12:30:00') },
+                    { valueSerializers: [luxonDate] }
+                )
+            ).toEqual({ from: '2024-01-31' })
+        })
+
+        it('should write arrays in the configured format', () => {
+            expect(serializeQueryParams({ status: ['open', null, 'closed'] })).toEqual({ status: ['open', 'closed'] })
+            expect(serializeQueryParams({ status: ['open', 'closed'] }, { arrayFormat: 'comma' })).toEqual({
+                status: 'open,closed'
+            })
+        })
+
+        it('should flatten nested objects with dot-separated names', () => {
+            expect(
+                serializeQueryParams({
+                    period: { from: LocalDate.of(2024, 1, 1), to: null },
+                    owner: { address: { city: 'Gent' } }
+                })
+            ).toEqual({ 'period.from': '2024-01-01', 'owner.address.city': 'Gent' })
+        })
+    })
+
+    describe('serializeRequestData', () => {
+        it('should create http params', () => {
+            const params = serializeRequestData({ page: 2, status: ['open', 'closed'] })
+
+            expect(params.toString()).toBe('page=2&status=open&status=closed')
+        })
+    })
+
+    describe('parseQueryParams', () => {
+        it('should ignore parameters that would modify the prototype of the objects', () => {
+            const data = parseQueryParams(
+                new HttpParams({
+                    fromString: '__proto__.polluted=1&constructor.prototype.polluted=2&search.__proto__.polluted=3&a=b'
+                })
+            )
+
+            expect(data).toEqual({ a: 'b' })
+            expect(({} as Record<string, unknown>)['polluted']).toBeUndefined()
+            expect(Object.prototype.hasOwnProperty.call(Object.prototype, 'polluted')).toBe(false)
+        })
+
+        it('should only use the own types of the options', () => {
+            const data = parseQueryParams({ toString: 'x', valueOf: 'y', page: '2' }, { types: { page: 'number' } })
+
+            expect(data).toEqual({ toString: 'x', valueOf: 'y', page: 2 })
+        })
+
+        it('should create nested objects and convert the values to the given types', () => {
+            const data = parseQueryParams(
+                { page: '2', active: 'true', 'period.from': '2024-01-01', status: ['open', 'closed'], name: 'x' },
+                { types: { page: 'number', active: 'boolean', 'period.from': (value) => LocalDate.parse(value) } }
+            )
+
+            expect(data).toEqual({
+                page: 2,
+                active: true,
+                period: { from: LocalDate.of(2024, 1, 1) },
+                status: ['open', 'closed'],
+                name: 'x'
+            })
+        })
+
+        it('should parse the comma array format', () => {
+            const params = serializeRequestData({ ids: [1, 2] }, { arrayFormat: 'comma' })
+
+            expect(parseQueryParams(params, { arrayFormat: 'comma', types: { ids: 'number[]' } })).toEqual({
+                ids: [1, 2]
+            })
+            expect(
+                parseQueryParams(new HttpParams({ fromString: 'ids=' }), {
+                    arrayFormat: 'comma',
+                    types: { ids: 'number[]' }
+                })
+            ).toEqual({
+                ids: []
+            })
+        })
+
+        it('should parse what was serialized', () => {
+            const filters = { page: 3, search: { name: 'ppw', tags: ['a', 'b'] } }
+
+            expect(
+                parseQueryParams(serializeQueryParams(filters), {
+                    types: { page: 'number', 'search.tags': 'string[]' }
+                })
+            ).toEqual(filters)
+        })
+    })
+})
@@ -0,0 +1,214 @@
+import { HttpParams } from '@angular/common/http'
+
+/**
+ * How arrays are written in the query string:
+ * - `repeat`: the parameter is repeated for every value, `status=open&status=closed`.
+ * - `comma`: the values are joined with commas, `status=open,closed`.
+ */
+export type PpwArrayFormat = 'repeat' | 'comma'
+
+/**
+ * Serializes a single value to its query parameter representation.
+ * Returning `null` or `undefined` means that the serializer does not handle the value, in which case the next serializer
+ * is consulted.
+ */
+export type PpwQueryParamValueSerializer = (value: unknown) => string | null | undefined
+
+/**
+ * The type of a query parameter when it is parsed. Parameters without type are parsed as strings, or as arrays of
+ * strings when the parameter is repeated. A function parses a single value, e.g. `(value) => LocalDate.parse(value)`.
+ */
+export type PpwQueryParamType =
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'string[]'
+    | 'number[]'
+    | 'boolean[]'
+    | ((value: string) => unknown)
+
+export interface PpwRequestSerializerOptions {
+    /** How arrays are written in the query string. Defaults to `repeat`. */
+    arrayFormat?: PpwArrayFormat
+    /** Whether empty strings are omitted or sent as empty parameter. Defaults to `omit`. */
+    emptyStrings?: 'omit' | 'keep'
+    /** The serializers for values like dates, consulted before `DEFAULT_QUERY_PARAM_VALUE_SERIALIZERS`. */
+    valueSerializers?: Array<PpwQueryParamValueSerializer>
+}
+
+export interface PpwQueryParamParserOptions {
+    /** How arrays are written in the query string. Defaults to `repeat`. */
+    arrayFormat?: PpwArrayFormat
+    /** The types of the parameters, by their dot-separated name, e.g. `{ page: 'number', 'period.from': parseDate }`. */
+    types?: Record<string, PpwQueryParamType>
+}
+
+/** Serializes a `Date` as ISO 8601 date-time in UTC. */
+export const serializeDateQueryParam: PpwQueryParamValueSerializer = (value: unknown) =>
+    value instanceof Date ? value.toISOString() : undefined
+
+/** Serializes a Luxon `DateTime` as ISO 8601 date-time with offset. */
+export const serializeLuxonQueryParam: PpwQueryParamValueSerializer = (value: unknown) =>
+    isObject(value) && value['isLuxonDateTime'] === true && typeof value['toISO'] === 'function'
+        ? (value['toISO'] as () => string | null).call(value)
+        : undefined
+
+/** Serializes a js-joda temporal, like `LocalDate`, `LocalDateTime` or `ZonedDateTime`, in its ISO 8601 format. */
+export const serializeJsJodaQueryParam: PpwQueryParamValueSerializer = (value: unknown) =>
+    isObject(value) && typeof value['isSupported'] === 'function' && typeof value['until'] === 'function'
+        ? String(value)
+        : undefined
+
+/**
+ * The serializers that are consulted for values that are not handled by the configured serializers. The date libraries
+ * are detected by the shape of their values, so they are not required as dependencies.
+ */
+export const DEFAULT_QUERY_PARAM_VALUE_SERIALIZERS: Array<PpwQueryParamValueSerializer> = [
+    serializeDateQueryParam,
+    serializeLuxonQueryParam,
+    serializeJsJodaQueryParam
+]
+
+/**
+ * Serializes request data to query parameters, e.g. to pass them as `queryParams` to the router.
+ * `null` and `undefined` values and empty arrays are omitted, nested objects are flattened with dot-separated names
+ * (`period.from`) and dates are written in ISO 8601 format.
+ * @param data The request data, e.g. the filters of a search.
+ * @param options The formats of the serialized values.
+ */
+export const serializeQueryParams = (
+    data: Record<string, unknown>,
+    options: PpwRequestSerializerOptions = {}
+): Record<string, string | Array<string>> => {
+    const queryParams: Record<string, string | Array<string>> = {}
+    const valueSerializers = [...(options.valueSerializers ?? []), ...DEFAULT_QUERY_PARAM_VALUE_SERIALIZERS]
+
+    const serializeValue = (value: unknown): string | null => {
+        if (value === null || value === undefined) {
+            return null
+        }
+        for (const valueSerializer of valueSerializers) {
+            const serializedValue = valueSerializer(value)
+            if (serializedValue !== null && serializedValue !== undefined) {
+                return serializedValue
+            }
+        }
+        const stringValue = String(value)
+        return stringValue === '' && options.emptyStrings !== 'keep' ? null : stringValue
+    }
+
+    const addValue = (name: string, value: unknown): void => {
+        if (Array.isArray(value)) {
+            const values = value.map(serializeValue).filter((arrayValue): arrayValue is string => arrayValue !== null)
+            if (values.length) {
+                queryParams[name] = options.arrayFormat === 'comma' ? values.join(',') : values
+            }
+        } else if (isPlainObject(value)) {
+            Object.entries(value).forEach(([key, nestedValue]) => addValue(`${name}.${key}`, nestedValue))
+        } else {
+            const serializedValue = serializeValue(value)
+            if (serializedValue !== null) {
+                queryParams[name] = serializedValue
+            }
+        }
+    }
+
+    Object.entries(data).forEach(([key, value]) => addValue(key, value))
+    return queryParams
+}
+
+/**
+ * Serializes request data to the parameters of an HTTP request. See `serializeQueryParams` for the formats.
+ *
+ * `this.httpClient.get(url, { params: serializeRequestData(filters) })`
+ * @param data The request data, e.g. the filters of a search.
+ * @param options The formats of the serialized values.
+ */
+export const serializeRequestData = (
+    data: Record<string, unknown>,
+    options: PpwRequestSerializerOptions = {}
+): HttpParams => new HttpParams({ fromObject: serializeQueryParams(data, options) })
+
+/** Names that can't be used as a key of the parsed data, because they would modify the prototype of the objects. */
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype']
+
+/**
+ * Parses query parameters that were serialized with `serializeQueryParams` back to request data: dot-separated names
+ * become nested objects and the values are converted to the given types. Parameters with a name that contains
+ * `__proto__`, `constructor` or `prototype` are ignored, they come from the url and can't be trusted.
+ * @param params The query parameters, e.g. the `queryParams` of an activated route snapshot, or HTTP parameters.
+ * @param options The array format and types of the parameters.
+ */
+export const parseQueryParams = <TData extends Record<string, unknown> = Record<string, unknown>>(
+    params: Record<string, string | Array<string> | null | undefined> | HttpParams,
+    options: PpwQueryParamParserOptions = {}
+): TData => {
+    const data: Record<string, unknown> = {}
+    const names = params instanceof HttpParams ? params.keys() : Object.keys(params)
+
+    names.forEach((name) => {
+        const rawValue = params instanceof HttpParams ? params.getAll(name) : params[name]
+        if (rawValue === null || rawValue === undefined) {
+            return
+        }
+
+        const path = name.split('.')
+        if (path.some((key) => UNSAFE_KEYS.includes(key))) {
+            return
+        }
+
+        // The name comes from the url, so only the own types are used and not e.g. `Object.prototype.toString`.
+        const type = options.types && Object.hasOwn(options.types, name) ? options.types[name] : undefined
+        const value = parseValue(Array.isArray(rawValue) ? rawValue : [rawValue], type, options)
+
+        let target = data
+        path.slice(0, -1).forEach((key) => {
+            target[key] = Object.hasOwn(target, key) && isPlainObject(target[key]) ? target[key] : {}
+            target = target[key] as Record<string, unknown>
+        })
+        target[path[path.length - 1]] = value
+    })
+
+    return data as TData
+}
+
+const parseValue = (
+    values: Array<string>,
+    type: PpwQueryParamType | undefined,
+    options: PpwQueryParamParserOptions
+): unknown => {
+    if (type === undefined) {
+        return values.length === 1 ? values[0] : values
+    }
+    if (typeof type === 'function') {
+        return type(values[0])
+    }
+
+    const isArray = type.endsWith('[]')
+    const arrayValues =
+        isArray && options.arrayFormat === 'comma'
+            ? values.flatMap((value) => (value === '' ? [] : value.split(',')))
+            : values
+    const parsedValues = arrayValues.map((value) => {
+        switch (type.replace('[]', '')) {
+            case 'number':
+                return Number(value)
+            case 'boolean':
+                return value === 'true'
+            default:
+                return value
+        }
+    })
+
+    return isArray ? parsedValues : parsedValues[0]
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (!isObject(value)) {
+        return false
+    }
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+}
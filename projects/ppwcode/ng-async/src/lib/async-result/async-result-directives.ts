@@ -1,12 +1,12 @@
 import { Directive, input, InputSignal, Signal } from '@angular/core'
 import { Observable } from 'rxjs'
 import { AsyncResult } from '../models/async-result'
+import { PpwAsyncResultFailedContext } from './async-result-failed-context'
 import { PpwAsyncResultSuccessContext } from './async-result-success-context'
 
 @Directive({
     // eslint-disable-next-line @angular-eslint/directive-selector
-    selector: '[ppw-async-result-initial]',
-    standalone: false
+    selector: '[ppw-async-result-initial]'
 })
 export class PpwAsyncResultInitialDirective<TResult, TFilters> {
     public contextTyper: InputSignal<
@@ -20,15 +20,14 @@ export class PpwAsyncResultInitialDirective<TResult, TFilters> {
         dir: PpwAsyncResultSuccessDirective<TResult, TFilters>,
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         ctx: unknown
-    ): dir is PpwAsyncResultSuccessContext<TResult, TFilters> {
+    ): ctx is PpwAsyncResultSuccessContext<TResult, TFilters> {
         return true
     }
 }
 
 @Directive({
     // eslint-disable-next-line @angular-eslint/directive-selector
-    selector: '[ppw-async-result-success]',
-    standalone: false
+    selector: '[ppw-async-result-success]'
 })
 export class PpwAsyncResultSuccessDirective<T, U> {
     public contextTyper: InputSignal<
@@ -39,14 +38,41 @@ export class PpwAsyncResultSuccessDirective<T, U> {
         dir: PpwAsyncResultSuccessDirective<TResult, TFilters>,
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         ctx: unknown
-    ): dir is PpwAsyncResultSuccessContext<TResult, TFilters> {
+    ): ctx is PpwAsyncResultSuccessContext<TResult, TFilters> {
         return true
     }
 }
 
 @Directive({
     // eslint-disable-next-line @angular-eslint/directive-selector
-    selector: '[ppw-async-result-empty]',
-    standalone: false
+    selector: '[ppw-async-result-failed]'
+})
+export class PpwAsyncResultFailedDirective<TResult, TFilters, TError extends Error = Error> {
+    public contextTyper: InputSignal<
+        | Observable<AsyncResult<TResult, TFilters> | null>
+        | Signal<AsyncResult<TResult, TFilters> | null>
+        | AsyncResult<TResult, TFilters>
+        | null
+    > = input.required()
+    /**
+     * Type guard for the error of the failed async result, e.g. `isPpwHttpError`. The template is only rendered for errors
+     * that pass the guard, other errors are rendered by the default failure view.
+     */
+    public errorTyper: InputSignal<((error: Error) => error is TError) | undefined> = input<
+        ((error: Error) => error is TError) | undefined
+    >()
+
+    static ngTemplateContextGuard<TResult, TFilters, TError extends Error>(
+        dir: PpwAsyncResultFailedDirective<TResult, TFilters, TError>,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        ctx: unknown
+    ): ctx is PpwAsyncResultFailedContext<TResult, TFilters, TError> {
+        return true
+    }
+}
+
+@Directive({
+    // eslint-disable-next-line @angular-eslint/directive-selector
+    selector: '[ppw-async-result-empty]'
 })
 export class PpwAsyncResultEmptyDirective {}
@@ -0,0 +1,16 @@
+import { InputSignal, Signal } from '@angular/core'
+import { Observable } from 'rxjs'
+import { AsyncResult } from '../models/async-result'
+
+export interface PpwAsyncResultFailedContext<TResult, TFilters, TError extends Error = Error> {
+    $implicit: AsyncResult<TResult, TFilters>
+    contextTyper: InputSignal<
+        | Observable<AsyncResult<TResult, TFilters> | null>
+        | Signal<AsyncResult<TResult, TFilters> | null>
+        | AsyncResult<TResult, TFilters>
+        | null
+    >
+    error: TError
+    /** Executes the `retry` callback of the async result component, or `null` when no callback has been set. */
+    retry: (() => void) | null
+}
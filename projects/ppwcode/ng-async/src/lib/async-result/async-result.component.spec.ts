@@ -0,0 +1,267 @@
+import { Component, input, Signal, signal } from '@angular/core'
+import { ComponentFixture, TestBed } from '@angular/core/testing'
+import { By } from '@angular/platform-browser'
+import { TranslateModule } from '@ngx-translate/core'
+import {
+    AsyncResult,
+    AsyncResultComponent,
+    AsyncResultModule,
+    createFailedAsyncResult,
+    createPendingAsyncResult,
+    createSuccessAsyncResult,
+    isPpwHttpError,
+    PPW_ASYNC_RESULT_DEFAULT_OPTIONS,
+    PpwAsyncResultSuccessDirective,
+    PpwHttpError
+} from '@ppwcode/ng-async'
+import { BehaviorSubject, Observable } from 'rxjs'
+import { LoaderComponent } from '@ppwcode/ng-common-components'
+
+@Component({
+    template: `
+        <ppw-async-result [asyncResult]="asyncResult()">
+            <ng-template ppw-async-result-success [contextTyper]="asyncResult()" let-entity="entity">
+                <span class="entity">{{ entity }}</span>
+            </ng-template>
+        </ppw-async-result>
+    `,
+    imports: [AsyncResultModule]
+})
+class AsyncResultTestComponent {
+    public asyncResult = signal<AsyncResult<string | null> | null>(null)
+}
+
+@Component({
+    template: `
+        <ppw-async-result [asyncResult]="asyncResult()" [retry]="retry">
+            <ng-template ppw-async-result-success [contextTyper]="asyncResult()">success</ng-template>
+            <ng-template
+                ppw-async-result-failed
+                [contextTyper]="asyncResult()"
+                [errorTyper]="isPpwHttpError"
+                let-error="error"
+            >
+                <span class="status">{{ error.status }}</span>
+            </ng-template>
+        </ppw-async-result>
+    `,
+    imports: [AsyncResultModule]
+})
+class AsyncResultFailedTestComponent {
+    public asyncResult = signal<AsyncResult<string | null> | null>(null)
+    public retry = jasmine.createSpy('retry')
+    public readonly isPpwHttpError = isPpwHttpError
+}
+
+@Component({
+    selector: 'ppw-test-failed',
+    template: `<span class="failed-component">{{ error()?.message }}</span>`
+})
+class FailedTestComponent {
+    public error = input<Error | undefined>()
+    public retry = input<(() => void) | null>(null)
+}
+
+@Component({
+    template: `
+        <ppw-async-result [asyncResult]="asyncResult()" [isEmpty]="isEmpty()">
+            <ng-template ppw-async-result-success [contextTyper]="asyncResult()">
+                <span class="success">success</span>
+            </ng-template>
+            <ng-template ppw-async-result-empty><span class="empty">empty</span></ng-template>
+        </ppw-async-result>
+    `,
+    imports: [AsyncResultModule]
+})
+class AsyncResultEmptyTestComponent {
+    public asyncResult = signal<AsyncResult<Array<number>> | null>(null)
+    public isEmpty = signal<((entity: unknown) => boolean) | null>(null)
+}
+
+@Component({
+    template: `
+        <ppw-async-result [asyncResult]="source">
+            <ng-template ppw-async-result-success [contextTyper]="source" let-entity="entity">
+                <span class="entity">{{ entity.toUpperCase() }}</span>
+            </ng-template>
+        </ppw-async-result>
+    `,
+    imports: [AsyncResultComponent, PpwAsyncResultSuccessDirective]
+})
+class AsyncResultStandaloneTestComponent {
+    public source: Observable<AsyncResult<string> | null> | Signal<AsyncResult<string> | null> = signal(null)
+}
+
+describe('AsyncResultComponent', () => {
+    let fixture: ComponentFixture<AsyncResultTestComponent>
+
+    const renderedEntity = (): string | null =>
+        fixture.debugElement.query(By.css('.entity'))?.nativeElement.textContent ?? null
+    const loading = (): boolean | null =>
+        fixture.debugElement.query(By.directive(LoaderComponent)).componentInstance.loading()
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ imports: [AsyncResultTestComponent, TranslateModule.forRoot()] })
+    })
+
+    describe('statuses', () => {
+        beforeEach(() => {
+            fixture = TestBed.createComponent(AsyncResultTestComponent)
+        })
+
+        it('should render the success template for a successful result', () => {
+            fixture.componentInstance.asyncResult.set(createSuccessAsyncResult('loaded'))
+            fixture.detectChanges()
+
+            expect(renderedEntity()).toBe('loaded')
+            expect(loading()).toBeFalse()
+        })
+
+        it('should keep rendering the stale entity with a loader while pending', () => {
+            fixture.componentInstance.asyncResult.set(createPendingAsyncResult('stale'))
+            fixture.detectChanges()
+
+            expect(renderedEntity()).toBe('stale')
+            expect(loading()).toBeTrue()
+        })
+
+        it('should only render the loader while pending without entity', () => {
+            fixture.componentInstance.asyncResult.set(createPendingAsyncResult(null))
+            fixture.detectChanges()
+
+            expect(renderedEntity()).toBeNull()
+            expect(loading()).toBeTrue()
+        })
+
+        it('should not render the success template for a failed result', () => {
+            fixture.componentInstance.asyncResult.set(createFailedAsyncResult(new Error('Oops'), 'stale'))
+            fixture.detectChanges()
+
+            expect(renderedEntity()).toBeNull()
+            expect(loading()).toBeFalse()
+        })
+    })
+
+    describe('failed results', () => {
+        let failedFixture: ComponentFixture<AsyncResultFailedTestComponent>
+
+        const query = (selector: string): HTMLElement | null =>
+            failedFixture.debugElement.query(By.css(selector))?.nativeElement ?? null
+
+        const renderFailure = (error: Error): void => {
+            failedFixture = TestBed.createComponent(AsyncResultFailedTestComponent)
+            failedFixture.componentInstance.asyncResult.set(createFailedAsyncResult(error, null))
+            failedFixture.detectChanges()
+        }
+
+        it('should render the failed template with the typed error', () => {
+            renderFailure(new PpwHttpError('Conflict', 409))
+
+            expect(query('.status')?.textContent).toBe('409')
+            expect(query('ppw-message-bar')).toBeNull()
+        })
+
+        it('should render the default failure view with a retry button for errors not accepted by the template', () => {
+            renderFailure(new Error('Oops'))
+
+            expect(query('.status')).toBeNull()
+            expect(query('ppw-message-bar')).not.toBeNull()
+
+            query('.ppw-async-result-retry')?.click()
+            expect(failedFixture.componentInstance.retry).toHaveBeenCalled()
+        })
+
+        it('should render the default failed component of the options', () => {
+            TestBed.overrideProvider(PPW_ASYNC_RESULT_DEFAULT_OPTIONS, {
+                useValue: { failedResultComponent: FailedTestComponent }
+            })
+            renderFailure(new Error('Oops'))
+
+            expect(query('.failed-component')?.textContent).toBe('Oops')
+            expect(query('ppw-message-bar')).toBeNull()
+        })
+    })
+
+    describe('empty results', () => {
+        let emptyFixture: ComponentFixture<AsyncResultEmptyTestComponent>
+
+        const query = (selector: string): HTMLElement | null =>
+            emptyFixture.debugElement.query(By.css(selector))?.nativeElement ?? null
+
+        it('should render the empty template for an empty array', () => {
+            emptyFixture = TestBed.createComponent(AsyncResultEmptyTestComponent)
+            emptyFixture.componentInstance.asyncResult.set(createSuccessAsyncResult([]))
+            emptyFixture.detectChanges()
+
+            expect(query('.empty')).not.toBeNull()
+            expect(query('.success')).toBeNull()
+        })
+
+        it('should use the isEmpty input to determine emptiness', () => {
+            emptyFixture = TestBed.createComponent(AsyncResultEmptyTestComponent)
+            emptyFixture.componentInstance.asyncResult.set(createSuccessAsyncResult([0]))
+            emptyFixture.componentInstance.isEmpty.set((entity) => (entity as Array<number>).every((n) => n === 0))
+            emptyFixture.detectChanges()
+
+            expect(query('.empty')).not.toBeNull()
+        })
+
+        it('should use the isEmpty predicate of the default options', () => {
+            TestBed.overrideProvider(PPW_ASYNC_RESULT_DEFAULT_OPTIONS, { useValue: { isEmpty: () => false } })
+            emptyFixture = TestBed.createComponent(AsyncResultEmptyTestComponent)
+            emptyFixture.componentInstance.asyncResult.set(createSuccessAsyncResult([]))
+            emptyFixture.detectChanges()
+
+            expect(query('.success')).not.toBeNull()
+        })
+    })
+
+    describe('observables and signals', () => {
+        let standaloneFixture: ComponentFixture<AsyncResultStandaloneTestComponent>
+
+        const renderedStandaloneEntity = (): string | null =>
+            standaloneFixture.debugElement.query(By.css('.entity'))?.nativeElement.textContent ?? null
+
+        beforeEach(() => {
+            standaloneFixture = TestBed.createComponent(AsyncResultStandaloneTestComponent)
+        })
+
+        it('should read a signal', () => {
+            const source = signal<AsyncResult<string> | null>(createSuccessAsyncResult('signal'))
+            standaloneFixture.componentInstance.source = source
+            standaloneFixture.detectChanges()
+            expect(renderedStandaloneEntity()).toBe('SIGNAL')
+
+            source.set(createSuccessAsyncResult('updated'))
+            standaloneFixture.detectChanges()
+            expect(renderedStandaloneEntity()).toBe('UPDATED')
+        })
+
+        it('should subscribe to an observable and unsubscribe when destroyed', () => {
+            const source$ = new BehaviorSubject<AsyncResult<string> | null>(createSuccessAsyncResult('observable'))
+            standaloneFixture.componentInstance.source = source$
+            standaloneFixture.detectChanges()
+            expect(renderedStandaloneEntity()).toBe('OBSERVABLE')
+
+            source$.next(createSuccessAsyncResult('next'))
+            standaloneFixture.detectChanges()
+            expect(renderedStandaloneEntity()).toBe('NEXT')
+
+            standaloneFixture.destroy()
+            expect(source$.observed).toBeFalse()
+        })
+
+        it('should unsubscribe from the previous observable when the input changes', () => {
+            const first$ = new BehaviorSubject<AsyncResult<string> | null>(createSuccessAsyncResult('first'))
+            const second$ = new BehaviorSubject<AsyncResult<string> | null>(createSuccessAsyncResult('second'))
+            standaloneFixture.componentInstance.source = first$
+            standaloneFixture.detectChanges()
+
+            standaloneFixture.componentInstance.source = second$
+            standaloneFixture.detectChanges()
+
+            expect(first$.observed).toBeFalse()
+            expect(renderedStandaloneEntity()).toBe('SECOND')
+        })
+    })
+})
@@ -1,12 +1,30 @@
-import { Component, contentChild, inject, input, InputSignal, Signal, TemplateRef, Type } from '@angular/core'
-import { Severity } from '@ppwcode/ng-common-components'
-import { AsyncResult } from '../models/async-result'
+import { NgComponentOutlet, NgTemplateOutlet } from '@angular/common'
+import {
+    Component,
+    computed,
+    contentChild,
+    effect,
+    inject,
+    input,
+    InputSignal,
+    isSignal,
+    signal,
+    Signal,
+    TemplateRef,
+    Type
+} from '@angular/core'
+import { TranslatePipe } from '@ngx-translate/core'
+import { LoaderComponent, MessageBarComponent, Severity } from '@ppwcode/ng-common-components'
+import { isObservable, Observable } from 'rxjs'
+import { AsyncResult, isEmptyEntity, PpwIsEmptyPredicate } from '../models/async-result'
 import {
     PPW_ASYNC_RESULT_DEFAULT_OPTIONS,
-    PpwAsyncResultDefaultOptions
+    PpwAsyncResultDefaultOptions,
+    PpwAsyncResultFailedComponent
 } from '../options/ppw-async-result-default-options'
 import {
     PpwAsyncResultEmptyDirective,
+    PpwAsyncResultFailedDirective,
     PpwAsyncResultInitialDirective,
     PpwAsyncResultSuccessDirective
 } from './async-result-directives'
@@ -14,7 +32,7 @@ import {
 @Component({
     selector: 'ppw-async-result',
     templateUrl: './async-result.component.html',
-    standalone: false
+    imports: [NgTemplateOutlet, NgComponentOutlet, TranslatePipe, LoaderComponent, MessageBarComponent]
 })
 export class AsyncResultComponent {
     // Dependencies
@@ -23,11 +41,50 @@ export class AsyncResultComponent {
     })
 
     // Inputs
-    public asyncResult: InputSignal<AsyncResult<unknown, unknown> | null> = input.required<AsyncResult<
-        unknown,
-        unknown
-    > | null>()
+    /** The async result to render. Observables are subscribed to and signals are read by the component itself. */
+    public asyncResult: InputSignal<
+        | Observable<AsyncResult<unknown, unknown> | null>
+        | Signal<AsyncResult<unknown, unknown> | null>
+        | AsyncResult<unknown, unknown>
+        | null
+    > = input.required()
     public pending: InputSignal<boolean | null> = input<boolean | null>(null)
+    /** Callback to retry the failed operation. When set, the default failure view shows a retry button. */
+    public retry: InputSignal<(() => void) | null> = input<(() => void) | null>(null)
+    /** Determines whether the entity of a successful async result is empty. Overrides the default options. */
+    public isEmpty: InputSignal<PpwIsEmptyPredicate | null> = input<PpwIsEmptyPredicate | null>(null)
+
+    // State
+    #asyncResultFromObservable = signal<AsyncResult<unknown, unknown> | null>(null)
+
+    // Effects
+    // eslint-disable-next-line no-unused-private-class-members
+    #subscribeToAsyncResult = effect((onCleanup) => {
+        const asyncResult = this.asyncResult()
+        if (isObservable(asyncResult)) {
+            this.#asyncResultFromObservable.set(null)
+            const subscription = asyncResult.subscribe((result) => this.#asyncResultFromObservable.set(result))
+            // The cleanup is executed when the input changes and when the component is destroyed.
+            onCleanup(() => subscription.unsubscribe())
+        }
+    })
+
+    // Computed
+    /** The async result that is rendered, regardless of whether it was passed as value, observable or signal. */
+    public currentAsyncResult: Signal<AsyncResult<unknown, unknown> | null> = computed(() => {
+        const asyncResult = this.asyncResult()
+        if (isObservable(asyncResult)) {
+            return this.#asyncResultFromObservable()
+        }
+        return isSignal(asyncResult) ? asyncResult() : asyncResult
+    })
+    /** Whether the loader is shown: the `pending` input takes precedence over the status of the async result. */
+    public loading: Signal<boolean> = computed(() => this.pending() ?? this.currentAsyncResult()?.status === 'pending')
+    /** Whether the entity of the async result is empty, according to the `isEmpty` input or the default options. */
+    public empty: Signal<boolean> = computed(() => {
+        const isEmpty = this.isEmpty() ?? this.#asyncResultDefaultOptions?.isEmpty ?? isEmptyEntity
+        return isEmpty(this.currentAsyncResult()?.entity)
+    })
 
     // Content children
     public successTemplate: Signal<TemplateRef<unknown>> = contentChild.required(PpwAsyncResultSuccessDirective, {
@@ -39,11 +96,31 @@ export class AsyncResultComponent {
     public emptyTemplate: Signal<TemplateRef<unknown> | undefined> = contentChild(PpwAsyncResultEmptyDirective, {
         read: TemplateRef
     })
+    public failedDirective: Signal<PpwAsyncResultFailedDirective<unknown, unknown> | undefined> =
+        contentChild(PpwAsyncResultFailedDirective)
+    public failedTemplate: Signal<TemplateRef<unknown> | undefined> = contentChild(PpwAsyncResultFailedDirective, {
+        read: TemplateRef
+    })
+
+    /** The failed template, if there is one that accepts the error of the failed async result. */
+    public applicableFailedTemplate: Signal<TemplateRef<unknown> | null> = computed(() => {
+        const errorTyper = this.failedDirective()?.errorTyper()
+        const error = this.currentAsyncResult()?.error
+        return !errorTyper || (error && errorTyper(error)) ? this.failedTemplate() ?? null : null
+    })
 
     // Getters
     public get asyncResultDefaultEmptyComponent(): Type<unknown> | undefined {
         return this.#asyncResultDefaultOptions?.emptyResultComponent
     }
 
+    public get asyncResultDefaultFailedComponent(): Type<PpwAsyncResultFailedComponent> | undefined {
+        return this.#asyncResultDefaultOptions?.failedResultComponent
+    }
+
+    public get retryLabel(): string {
+        return this.#asyncResultDefaultOptions?.retryLabel ?? 'Retry'
+    }
+
     public readonly errorSeverity: Severity = Severity.error
 }
@@ -1,27 +1,29 @@
-import { CommonModule } from '@angular/common'
 import { NgModule } from '@angular/core'
-import { TranslateDirective, TranslatePipe } from '@ngx-translate/core'
-import { LoaderComponent, MessageBarComponent } from '@ppwcode/ng-common-components'
 import {
     PpwAsyncResultEmptyDirective,
+    PpwAsyncResultFailedDirective,
     PpwAsyncResultInitialDirective,
     PpwAsyncResultSuccessDirective
 } from './async-result-directives'
 import { AsyncResultComponent } from './async-result.component'
 
+/**
+ * The async result component and its directives are standalone, this module is kept to import them all at once.
+ */
 @NgModule({
-    declarations: [
+    imports: [
         AsyncResultComponent,
         PpwAsyncResultInitialDirective,
         PpwAsyncResultSuccessDirective,
-        PpwAsyncResultEmptyDirective
+        PpwAsyncResultEmptyDirective,
+        PpwAsyncResultFailedDirective
     ],
     exports: [
         AsyncResultComponent,
         PpwAsyncResultInitialDirective,
         PpwAsyncResultSuccessDirective,
-        PpwAsyncResultEmptyDirective
-    ],
-    imports: [CommonModule, MessageBarComponent, TranslatePipe, TranslateDirective, LoaderComponent]
+        PpwAsyncResultEmptyDirective,
+        PpwAsyncResultFailedDirective
+    ]
 })
 export class AsyncResultModule {}
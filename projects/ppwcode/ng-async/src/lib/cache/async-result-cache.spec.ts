@@ -0,0 +1,147 @@
+import { InjectionToken } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import {
+    AsyncResult,
+    AsyncResultCache,
+    createCacheKey,
+    createFailedAsyncResult,
+    createSuccessAsyncResult,
+    provideAsyncResultCacheOptions
+} from '@ppwcode/ng-async'
+import { firstValueFrom, Observable, of, Subject } from 'rxjs'
+
+const TEST_STORAGE_TOKEN = new InjectionToken<Storage>('TEST_STORAGE_TOKEN')
+
+describe('AsyncResultCache', () => {
+    let cache: AsyncResultCache
+    let loader: jasmine.Spy<() => Observable<AsyncResult<string>>>
+    let now: number
+
+    beforeEach(() => {
+        localStorage.clear()
+        now = new Date(2024, 0, 1).getTime()
+        spyOn(Date, 'now').and.callFake(() => now)
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: TEST_STORAGE_TOKEN, useValue: localStorage },
+                provideAsyncResultCacheOptions({ defaultTtl: 1000, storageToken: TEST_STORAGE_TOKEN })
+            ]
+        })
+        cache = TestBed.inject(AsyncResultCache)
+        loader = jasmine.createSpy('loader').and.callFake(() => of(createSuccessAsyncResult('countries')))
+    })
+
+    afterEach(() => {
+        localStorage.clear()
+    })
+
+    it('should create the same key regardless of the order and empty values of the params', () => {
+        expect(createCacheKey('/api/countries', { b: 2, a: 'x', c: null })).toBe(
+            createCacheKey('/api/countries', { a: 'x', b: 2, d: undefined })
+        )
+        expect(createCacheKey('/api/countries', {})).toBe('/api/countries')
+        expect(createCacheKey('/api/countries', { a: 1 })).not.toBe(createCacheKey('/api/countries', { a: 2 }))
+    })
+
+    it('should return the cached result until the ttl has expired', async () => {
+        const request = { url: '/api/countries', params: { language: 'nl' } }
+
+        expect(await firstValueFrom(cache.cached(request, loader))).toEqual(createSuccessAsyncResult('countries'))
+        expect(await firstValueFrom(cache.cached(request, loader))).toEqual(createSuccessAsyncResult('countries'))
+        expect(loader).toHaveBeenCalledTimes(1)
+
+        now += 1000
+        await firstValueFrom(cache.cached(request, loader))
+        expect(loader).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache failed results', async () => {
+        loader.and.callFake(() => of(createFailedAsyncResult(new Error('Oops'), null as unknown as string)))
+
+        await firstValueFrom(cache.cached({ url: '/api/countries' }, loader))
+        await firstValueFrom(cache.cached({ url: '/api/countries' }, loader))
+
+        expect(loader).toHaveBeenCalledTimes(2)
+    })
+
+    it('should share a request that is in flight', async () => {
+        const response$ = new Subject<AsyncResult<string>>()
+        loader.and.returnValue(response$)
+
+        const first = firstValueFrom(cache.cached({ url: '/api/countries' }, loader))
+        const second = firstValueFrom(cache.cached({ url: '/api/countries' }, loader))
+        response$.next(createSuccessAsyncResult('countries'))
+        response$.complete()
+
+        expect(await first).toEqual(createSuccessAsyncResult('countries'))
+        expect(await second).toEqual(createSuccessAsyncResult('countries'))
+        expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    it('should invalidate the cached results by tag', async () => {
+        await firstValueFrom(cache.cached({ url: '/api/countries', tags: ['countries'] }, loader))
+        await firstValueFrom(cache.cached({ url: '/api/languages', tags: ['languages'] }, loader))
+
+        await firstValueFrom(of(createSuccessAsyncResult(null)).pipe(cache.invalidateOnSuccess('countries')))
+        await firstValueFrom(cache.cached({ url: '/api/countries', tags: ['countries'] }, loader))
+        await firstValueFrom(cache.cached({ url: '/api/languages', tags: ['languages'] }, loader))
+
+        expect(loader).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not cache the result of a request that is invalidated while in flight', async () => {
+        const response$ = new Subject<AsyncResult<string>>()
+        loader.and.returnValue(response$)
+
+        const stale = firstValueFrom(cache.cached({ url: '/api/countries', tags: ['countries'] }, loader))
+        cache.invalidate('countries')
+        response$.next(createSuccessAsyncResult('stale countries'))
+        response$.complete()
+        await stale
+
+        loader.and.callFake(() => of(createSuccessAsyncResult('countries')))
+        expect(await firstValueFrom(cache.cached({ url: '/api/countries', tags: ['countries'] }, loader))).toEqual(
+            createSuccessAsyncResult('countries')
+        )
+        expect(loader).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache the result of a request that is in flight when the cache is cleared', async () => {
+        const response$ = new Subject<AsyncResult<string>>()
+        loader.and.returnValue(response$)
+
+        const stale = firstValueFrom(cache.cached({ url: '/api/countries', params: { a: 1 } }, loader))
+        cache.clear()
+        response$.next(createSuccessAsyncResult('stale countries'))
+        response$.complete()
+        await stale
+
+        loader.and.callFake(() => of(createSuccessAsyncResult('countries')))
+        await firstValueFrom(cache.cached({ url: '/api/countries', params: { a: 1 } }, loader))
+        expect(loader).toHaveBeenCalledTimes(2)
+    })
+
+    it('should invalidate a single request', async () => {
+        await firstValueFrom(cache.cached({ url: '/api/countries', params: { a: 1 } }, loader))
+
+        cache.invalidateRequest('/api/countries', { a: 1 })
+        await firstValueFrom(cache.cached({ url: '/api/countries', params: { a: 1 } }, loader))
+
+        expect(loader).toHaveBeenCalledTimes(2)
+    })
+
+    it('should read persistent results from the storage', async () => {
+        await firstValueFrom(cache.cached({ url: '/api/countries', persistent: true, tags: ['countries'] }, loader))
+        expect(localStorage.getItem('ppw-async-result-cache:/api/countries')).not.toBeNull()
+
+        // A new cache instance simulates a reload of the application.
+        const reloadedCache = TestBed.runInInjectionContext(() => new AsyncResultCache())
+        expect(await firstValueFrom(reloadedCache.cached({ url: '/api/countries' }, loader))).toEqual(
+            createSuccessAsyncResult('countries')
+        )
+        expect(loader).toHaveBeenCalledTimes(1)
+
+        reloadedCache.invalidate('countries')
+        expect(localStorage.getItem('ppw-async-result-cache:/api/countries')).toBeNull()
+    })
+})
@@ -0,0 +1,236 @@
+import { inject, Injectable, Injector } from '@angular/core'
+import { defer, finalize, MonoTypeOperatorFunction, Observable, of, shareReplay, tap } from 'rxjs'
+import { serializeQueryParams } from '../api-calls/request-serializer'
+import { AsyncResult } from '../models/async-result'
+import { PPW_ASYNC_RESULT_CACHE_OPTIONS } from '../options/ppw-async-result-cache-options'
+
+const DEFAULT_TTL = 5 * 60 * 1000
+const DEFAULT_STORAGE_KEY_PREFIX = 'ppw-async-result-cache:'
+
+export interface PpwCacheRequest {
+    /** The url of the request. */
+    url: string
+    /** The parameters of the request. Parameters that are `null` or `undefined` are ignored. */
+    params?: Record<string, unknown>
+    /** The time in milliseconds that the result is valid. Defaults to the `defaultTtl` of the cache options. */
+    ttl?: number
+    /** The tags of the result, used to invalidate the cached result after a mutation. */
+    tags?: Array<string>
+    /** Whether the result is cached in the persistent storage. The entity of the result must be JSON serializable. */
+    persistent?: boolean
+}
+
+interface CacheEntry {
+    result: AsyncResult<unknown, unknown>
+    expiresAt: number
+    tags: Array<string>
+}
+
+interface InFlightRequest {
+    result$: Observable<AsyncResult<unknown, unknown>>
+    tags: Array<string>
+    /** Whether the request was invalidated while in flight, its result is then not cached. */
+    invalidated: boolean
+}
+
+/**
+ * Creates the key of a request in the cache. The key consists of the url and the parameters that have a value, sorted
+ * by name so the order in which the parameters are defined doesn't matter.
+ * @param url The url of the request.
+ * @param params The parameters of the request.
+ */
+export const createCacheKey = (url: string, params: Record<string, unknown> = {}): string => {
+    const cleanedParams = serializeQueryParams(params)
+    const sortedParams = Object.keys(cleanedParams)
+        .sort()
+        .map((key) => [key, cleanedParams[key]])
+    return sortedParams.length ? `${url}|${JSON.stringify(sortedParams)}` : url
+}
+
+/**
+ * Cache for async results. Successful results are cached per request until they expire or are invalidated, failed
+ * results are never cached. Requests for the same key that are executed at the same time share one execution.
+ * A request that is invalidated while it is in flight is not cached, so a result loaded before a mutation never
+ * overwrites the invalidation.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AsyncResultCache {
+    #options = inject(PPW_ASYNC_RESULT_CACHE_OPTIONS, { optional: true }) ?? {}
+    #storage: Storage | null = this.#options.storageToken
+        ? inject(Injector).get(this.#options.storageToken, null)
+        : null
+    #entries = new Map<string, CacheEntry>()
+    #inFlight = new Map<string, InFlightRequest>()
+
+    /**
+     * Returns the cached result of the request, or executes the loader when there is no valid cached result.
+     * The loader is executed lazily, when the returned observable is subscribed to.
+     * @param request The request to cache the result of.
+     * @param loader Executes the request, e.g. a service call piped through `handleAsyncResult`.
+     */
+    public cached<TResult, TFilter = null>(
+        request: PpwCacheRequest,
+        loader: () => Observable<AsyncResult<TResult, TFilter>>
+    ): Observable<AsyncResult<TResult, TFilter>> {
+        return defer(() => {
+            const key = createCacheKey(request.url, request.params)
+            const entry = this.#getEntry(key)
+            if (entry) {
+                return of(entry.result as AsyncResult<TResult, TFilter>)
+            }
+
+            const inFlight = this.#inFlight.get(key)
+            if (inFlight) {
+                return inFlight.result$ as Observable<AsyncResult<TResult, TFilter>>
+            }
+
+            const flight: InFlightRequest = {
+                result$: loader().pipe(
+                    tap((result) => {
+                        if (result.status === 'success' && !flight.invalidated) {
+                            this.#setEntry(key, result, request)
+                        }
+                    }),
+                    finalize(() => {
+                        // A request that was invalidated may have been replaced by a new request for the same key.
+                        if (this.#inFlight.get(key) === flight) {
+                            this.#inFlight.delete(key)
+                        }
+                    }),
+                    shareReplay({ bufferSize: 1, refCount: true })
+                ),
+                tags: request.tags ?? [],
+                invalidated: false
+            }
+            this.#inFlight.set(key, flight)
+            return flight.result$ as Observable<AsyncResult<TResult, TFilter>>
+        })
+    }
+
+    /**
+     * Removes the cached results that have at least one of the given tags.
+     * @param tags The tags of the results to remove.
+     */
+    public invalidate(...tags: Array<string>): void {
+        this.#entries.forEach((entry, key) => {
+            if (entry.tags.some((tag) => tags.includes(tag))) {
+                this.#removeEntry(key)
+            }
+        })
+        this.#inFlight.forEach((flight, key) => {
+            if (flight.tags.some((tag) => tags.includes(tag))) {
+                this.#removeEntry(key)
+            }
+        })
+        this.#storageKeys().forEach((storageKey) => {
+            const entry = this.#readStorageEntry(storageKey)
+            if (!entry || entry.tags.some((tag) => tags.includes(tag))) {
+                this.#storage?.removeItem(storageKey)
+            }
+        })
+    }
+
+    /**
+     * Removes the cached result of the given request.
+     * @param url The url of the request.
+     * @param params The parameters of the request.
+     */
+    public invalidateRequest(url: string, params?: Record<string, unknown>): void {
+        this.#removeEntry(createCacheKey(url, params))
+    }
+
+    /** Removes all the cached results. */
+    public clear(): void {
+        this.#entries.clear()
+        this.#inFlight.forEach((flight) => (flight.invalidated = true))
+        this.#inFlight.clear()
+        this.#storageKeys().forEach((storageKey) => this.#storage?.removeItem(storageKey))
+    }
+
+    /**
+     * Operator that invalidates the cached results with the given tags when a mutation succeeds.
+     * @param tags The tags of the results to remove.
+     */
+    public invalidateOnSuccess<TResult, TFilter>(
+        ...tags: Array<string>
+    ): MonoTypeOperatorFunction<AsyncResult<TResult, TFilter>> {
+        return tap((result) => {
+            if (result.status === 'success') {
+                this.invalidate(...tags)
+            }
+        })
+    }
+
+    #getEntry(key: string): CacheEntry | null {
+        const entry = this.#entries.get(key) ?? this.#readStorageEntry(this.#storageKey(key))
+        if (!entry) {
+            return null
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.#removeEntry(key)
+            return null
+        }
+
+        this.#entries.set(key, entry)
+        return entry
+    }
+
+    #setEntry(key: string, result: AsyncResult<unknown, unknown>, request: PpwCacheRequest): void {
+        const entry: CacheEntry = {
+            result,
+            expiresAt: Date.now() + (request.ttl ?? this.#options.defaultTtl ?? DEFAULT_TTL),
+            tags: request.tags ?? []
+        }
+        this.#entries.set(key, entry)
+        if (request.persistent) {
+            this.#storage?.setItem(this.#storageKey(key), JSON.stringify(entry))
+        }
+    }
+
+    #removeEntry(key: string): void {
+        this.#entries.delete(key)
+        const flight = this.#inFlight.get(key)
+        if (flight) {
+            flight.invalidated = true
+            this.#inFlight.delete(key)
+        }
+        this.#storage?.removeItem(this.#storageKey(key))
+    }
+
+    #readStorageEntry(storageKey: string): CacheEntry | null {
+        const value = this.#storage?.getItem(storageKey)
+        if (!value) {
+            return null
+        }
+
+        try {
+            return JSON.parse(value) as CacheEntry
+        } catch {
+            // A corrupt entry is treated as a cache miss and will be overwritten by the next successful result.
+            return null
+        }
+    }
+
+    #storageKey(key: string): string {
+        return `${this.#options.storageKeyPrefix ?? DEFAULT_STORAGE_KEY_PREFIX}${key}`
+    }
+
+    #storageKeys(): Array<string> {
+        const storage = this.#storage
+        if (!storage) {
+            return []
+        }
+
+        const prefix = this.#options.storageKeyPrefix ?? DEFAULT_STORAGE_KEY_PREFIX
+        const storageKeys: Array<string> = []
+        for (let index = 0; index < storage.length; index++) {
+            const storageKey = storage.key(index)
+            if (storageKey?.startsWith(prefix)) {
+                storageKeys.push(storageKey)
+            }
+        }
+        return storageKeys
+    }
+}
@@ -1,6 +1,14 @@
 import { HttpErrorResponse } from '@angular/common/http'
-import { createEmptyPagedEntities, createPagedEntitiesMock } from '@ppwcode/ng-async'
-import { firstValueFrom, of, throwError } from 'rxjs'
+import { Injector } from '@angular/core'
+import { fakeAsync, TestBed, tick } from '@angular/core/testing'
+import {
+    createEmptyPagedEntities,
+    createPagedEntitiesMock,
+    createSuccessAsyncResult,
+    createSuccessPagedAsyncResult,
+    provideRetryPolicy
+} from '@ppwcode/ng-async'
+import { defer, firstValueFrom, lastValueFrom, of, throwError, toArray } from 'rxjs'
 import { handleAsyncResult, handleAsyncResultIgnoreEntity, handlePagedAsyncResult } from './default-handling'
 
 describe('default async result handling', () => {
@@ -42,6 +50,27 @@ describe('default async result handling', () => {
                 new Error('ERROR_MESSAGE')
             )
         })
+
+        it('should emit a pending result with the previous entity when a previous result is passed', async () => {
+            const source$ = of({ a: 456 })
+
+            const asyncResults = await lastValueFrom(
+                handleAsyncResult(source$, [409], { previousResult: createSuccessAsyncResult({ a: 123 }) }).pipe(
+                    toArray()
+                )
+            )
+            expect(asyncResults).toEqual([
+                { status: 'pending', entity: { a: 123 }, filters: null },
+                { status: 'success', entity: { a: 456 }, filters: null }
+            ])
+        })
+
+        it('should emit a pending result without entity when the previous result is null', async () => {
+            const asyncResults = await lastValueFrom(
+                handleAsyncResult(of(1), [409], { previousResult: null }).pipe(toArray())
+            )
+            expect(asyncResults[0]).toEqual({ status: 'pending', entity: null, filters: null })
+        })
     })
 
     describe('async result ignore value', () => {
@@ -126,5 +155,62 @@ describe('default async result handling', () => {
                 new Error('ERROR_MESSAGE')
             )
         })
+
+        it('should emit a pending result with the previous entities and the new filters', async () => {
+            const previousResult = createSuccessPagedAsyncResult(createPagedEntitiesMock([{ a: 123 }]), { page: 1 })
+            const source$ = of(createPagedEntitiesMock([{ a: 456 }]))
+
+            const asyncResults = await lastValueFrom(
+                handlePagedAsyncResult(source$, [409], { page: 2 }, { previousResult }).pipe(toArray())
+            )
+            expect(asyncResults).toEqual([
+                { status: 'pending', entity: createPagedEntitiesMock([{ a: 123 }]), filters: { page: 2 } },
+                { status: 'success', entity: createPagedEntitiesMock([{ a: 456 }]), filters: { page: 2 } }
+            ])
+        })
+    })
+
+    describe('retry', () => {
+        let attempts: number
+        const serviceCall$ = defer(() =>
+            attempts++ === 0 ? throwError(() => new HttpErrorResponse({ status: 503 })) : of({ a: 123 })
+        )
+
+        beforeEach(() => {
+            attempts = 0
+        })
+
+        it('should not retry when no retry policy is provided', async () => {
+            const asyncResult = await firstValueFrom(handleAsyncResult(serviceCall$, [503]))
+
+            expect(asyncResult.status).toBe('failed')
+            expect(attempts).toBe(1)
+        })
+
+        it('should retry transient errors when a retry policy is provided', fakeAsync(() => {
+            TestBed.configureTestingModule({ providers: [provideRetryPolicy({ jitter: false })] })
+            const results: Array<unknown> = []
+
+            TestBed.runInInjectionContext(() => handleAsyncResult(serviceCall$, [503])).subscribe((result) =>
+                results.push(result)
+            )
+            tick(500)
+
+            expect(attempts).toBe(2)
+            expect(results).toEqual([createSuccessAsyncResult({ a: 123 })])
+        }))
+
+        it('should retry transient errors with the policy of the injector that is passed', fakeAsync(() => {
+            TestBed.configureTestingModule({ providers: [provideRetryPolicy({ jitter: false })] })
+            const results: Array<unknown> = []
+
+            handleAsyncResult(serviceCall$, [503], { injector: TestBed.inject(Injector) }).subscribe((result) =>
+                results.push(result)
+            )
+            tick(500)
+
+            expect(attempts).toBe(2)
+            expect(results).toEqual([createSuccessAsyncResult({ a: 123 })])
+        }))
     })
 })
@@ -1,9 +1,25 @@
-import { map, Observable } from 'rxjs'
+import { Injector } from '@angular/core'
+import { map, Observable, startWith } from 'rxjs'
 import { DEFAULT_HTTP_ERROR_CODES } from './constants/error-codes'
 import { expectAsyncResultHttpError, expectPagedAsyncResultHttpError } from './error-handling'
-import { createSuccessAsyncResult } from './models/async-result'
-import { createSuccessPagedAsyncResult } from './models/paged-async-result'
-import { PagedEntities } from './models/paged-entities'
+import { AsyncResult, createPendingAsyncResult, createSuccessAsyncResult } from './models/async-result'
+import { createSuccessPagedAsyncResult, PagedAsyncResult } from './models/paged-async-result'
+import { createEmptyPagedEntities, PagedEntities } from './models/paged-entities'
+import { injectHttpErrorExtractors } from './options/ppw-http-error-extractors'
+import { DEFAULT_RETRY_POLICY, injectRetryPolicy, PpwRetryOptions } from './options/ppw-retry-policy'
+import { injectRetryLogger, retryTransientHttpErrors } from './retry/retry-transient-http-errors'
+
+export interface HandleAsyncResultOptions<TResult> {
+    /** The previous result to emit as pending result while the service call is executing (stale-while-revalidate). */
+    previousResult?: TResult | null
+    /** The retry options for the service call, or `false` to disable retrying. */
+    retry?: PpwRetryOptions | false
+    /**
+     * The injector to resolve the http error extractors and the retry policy from, when the function is not called in
+     * an injection context.
+     */
+    injector?: Injector
+}
 
 /**
  * Default handling for observables that return a single result.
@@ -12,17 +28,29 @@ import { PagedEntities } from './models/paged-entities'
  * The returned observable will emit with an AsyncResult that is either in status "success" or "failed".
  * The filters property of the async result will be `null`.
  *
+ * When a previous result is passed (stale-while-revalidate), the returned observable first emits an AsyncResult in
+ * status "pending" carrying the entity of the previous result, so the stale entity can be shown while reloading.
+ *
+ * When a retry policy is provided with `provideRetryPolicy` or retry options are passed, transient http errors are
+ * retried before they are handled. The service call is assumed to be a GET request unless another method is passed.
+ *
  * @param serviceCall$ The observable that returns the result.
  * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
+ * @param options The previous result, the retry options and the injector.
  */
 export const handleAsyncResult = <T>(
     serviceCall$: Observable<T>,
-    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES
+    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
+    { previousResult, retry, injector }: HandleAsyncResultOptions<AsyncResult<T | null>> = {}
 ) => {
-    return serviceCall$.pipe(
+    const result$ = retryServiceCall(serviceCall$, retry, injector).pipe(
         map((result: T) => createSuccessAsyncResult<T | null>(result)),
-        expectAsyncResultHttpError<T | null>(httpErrorCodes, null)
+        expectAsyncResultHttpError<T | null>(httpErrorCodes, null, true, injectHttpErrorExtractors(injector))
     )
+
+    return previousResult === undefined
+        ? result$
+        : result$.pipe(startWith(createPendingAsyncResult<T | null>(previousResult?.entity ?? null)))
 }
 
 /**
@@ -35,14 +63,16 @@ export const handleAsyncResult = <T>(
  * The entity in the AsyncResult will always be `undefined` because the result of the service call is ignored.
  * @param serviceCall$ The observable that returns the result.
  * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
+ * @param options The injector.
  */
 export const handleAsyncResultIgnoreEntity = <T>(
     serviceCall$: Observable<T>,
-    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES
+    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
+    { injector }: Pick<HandleAsyncResultOptions<never>, 'injector'> = {}
 ) => {
     return serviceCall$.pipe(
         map(() => createSuccessAsyncResult(void 0)),
-        expectAsyncResultHttpError(httpErrorCodes, void 0)
+        expectAsyncResultHttpError(httpErrorCodes, void 0, true, injectHttpErrorExtractors(injector))
     )
 }
 
@@ -52,9 +82,17 @@ export const handleAsyncResultIgnoreEntity = <T>(
  *
  * The returned observable will emit with a PagedAsyncResult that is either in status "success" or "failed".
  * The filters property of the async result will be the filters that were passed to this function or `null`.
+ *
+ * When a previous result is passed (stale-while-revalidate), the returned observable first emits a PagedAsyncResult in
+ * status "pending" carrying the entities of the previous result and the given filters.
+ *
+ * When a retry policy is provided with `provideRetryPolicy` or retry options are passed, transient http errors are
+ * retried before they are handled. The service call is assumed to be a GET request unless another method is passed.
+ *
  * @param serviceCall$ The observable that returns the result.
  * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
  * @param filters The filters that were used to request the paged result.
+ * @param options The previous result, the retry options and the injector.
  */
 export const handlePagedAsyncResult = <
     TEntity,
@@ -63,10 +101,37 @@ export const handlePagedAsyncResult = <
 >(
     serviceCall$: Observable<T>,
     httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
-    filters?: TFilters
+    filters?: TFilters,
+    { previousResult, retry, injector }: HandleAsyncResultOptions<PagedAsyncResult<TEntity, TFilters>> = {}
 ) => {
-    return serviceCall$.pipe(
+    const result$ = retryServiceCall(serviceCall$, retry, injector).pipe(
         map((r) => createSuccessPagedAsyncResult<TEntity, TFilters>(r, filters)),
-        expectPagedAsyncResultHttpError<T, TFilters>(httpErrorCodes, filters)
+        expectPagedAsyncResultHttpError<T, TFilters>(httpErrorCodes, filters, true, injectHttpErrorExtractors(injector))
+    )
+
+    return previousResult === undefined
+        ? result$
+        : result$.pipe(
+              startWith(
+                  createPendingAsyncResult<PagedEntities<TEntity>, TFilters>(
+                      previousResult?.entity ?? createEmptyPagedEntities<TEntity>(),
+                      filters ?? null
+                  )
+              )
+          )
+}
+
+const retryServiceCall = <T>(
+    serviceCall$: Observable<T>,
+    retryOptions?: PpwRetryOptions | false,
+    injector?: Injector
+): Observable<T> => {
+    const retryPolicy = injectRetryPolicy(injector)
+    if (retryOptions === false || (!retryPolicy && !retryOptions)) {
+        return serviceCall$
+    }
+
+    return serviceCall$.pipe(
+        retryTransientHttpErrors(retryOptions, retryPolicy ?? DEFAULT_RETRY_POLICY, injectRetryLogger(injector))
     )
 }
@@ -0,0 +1,104 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { Injector } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import { firstValueFrom, Observable, throwError } from 'rxjs'
+import { handleAsyncResult } from './default-handling'
+import { provideHttpErrorExtractorWithTranslatedMessages } from './error-extractors'
+import { extractHttpError } from './error-handling'
+import { AsyncResult } from './models/async-result'
+import { PpwHttpError } from './models/http-error'
+import { injectHttpErrorExtractors, provideHttpErrorExtractors } from './options/ppw-http-error-extractors'
+
+describe('http error extractors', () => {
+    const translatedResponse = new HttpErrorResponse({
+        status: 400,
+        error: {
+            messages: [
+                { code: 'A', infoLevel: 'ERROR', parameters: [], text: 'First translated', translated: true },
+                { code: 'B', infoLevel: 'ERROR', parameters: [], text: 'NOT_TRANSLATED', translated: false },
+                { code: 'C', infoLevel: 'ERROR', parameters: [], text: 'Second translated', translated: true }
+            ]
+        }
+    })
+
+    it('should consult the extractors in order', () => {
+        const skippingExtractor = jasmine.createSpy('skipping').and.returnValue(null)
+        const handlingExtractor = jasmine.createSpy('handling').and.returnValue(new Error('HANDLED'))
+        const unusedExtractor = jasmine.createSpy('unused').and.returnValue(new Error('UNUSED'))
+
+        const error = extractHttpError(new HttpErrorResponse({ status: 409 }), false, [
+            skippingExtractor,
+            handlingExtractor,
+            unusedExtractor
+        ])
+
+        expect(error).toBeInstanceOf(PpwHttpError)
+        expect(error.message).toEqual('HANDLED')
+        expect(error.status).toEqual(409)
+        expect(skippingExtractor).toHaveBeenCalled()
+        expect(unusedExtractor).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the default implementation', () => {
+        const error = extractHttpError(new HttpErrorResponse({ status: 409 }), false, [() => undefined])
+
+        expect(error.message).toEqual('Conflict')
+    })
+
+    it('should ignore the extractors when the custom extraction is skipped', () => {
+        const extractor = jasmine.createSpy('extractor').and.returnValue(new Error('HANDLED'))
+
+        const error = extractHttpError(new HttpErrorResponse({ status: 409 }), true, [extractor])
+
+        expect(error.message).toEqual('Conflict')
+        expect(extractor).not.toHaveBeenCalled()
+    })
+
+    it('should use the provided extractors when the handling is set up in an injection context', async () => {
+        TestBed.configureTestingModule({
+            providers: [
+                provideHttpErrorExtractors((response) => (response.status === 409 ? new Error('FIRST') : null)),
+                provideHttpErrorExtractorWithTranslatedMessages()
+            ]
+        })
+
+        const handle = (response: HttpErrorResponse): Promise<AsyncResult<unknown>> => {
+            let result$!: Observable<AsyncResult<unknown>>
+            TestBed.runInInjectionContext(() => {
+                result$ = handleAsyncResult(throwError(() => response))
+            })
+            return firstValueFrom(result$)
+        }
+
+        expect((await handle(new HttpErrorResponse({ status: 409 }))).error?.message).toEqual('FIRST')
+        expect((await handle(translatedResponse)).error?.message).toEqual('First translated\nSecond translated')
+        expect((await handle(new HttpErrorResponse({ status: 404 }))).error?.message).toEqual('Not Found')
+    })
+
+    it('should use the extractors of the injector that is passed outside an injection context', async () => {
+        TestBed.configureTestingModule({
+            providers: [provideHttpErrorExtractors(() => new Error('PROVIDED'))]
+        })
+
+        const result = await firstValueFrom(
+            handleAsyncResult(
+                throwError(() => new HttpErrorResponse({ status: 409 })),
+                undefined,
+                {
+                    injector: TestBed.inject(Injector)
+                }
+            )
+        )
+
+        expect(result.error?.message).toEqual('PROVIDED')
+    })
+
+    it('should fall back to an empty chain outside an injection context and warn at most once', () => {
+        spyOn(console, 'warn')
+
+        expect(injectHttpErrorExtractors()).toEqual([])
+        expect(injectHttpErrorExtractors()).toEqual([])
+        // The warning is not repeated when an earlier spec already triggered it.
+        expect((console.warn as jasmine.Spy).calls.count()).toBeLessThanOrEqual(1)
+    })
+})
@@ -1,18 +1,33 @@
 import { HttpErrorResponse } from '@angular/common/http'
+import { Provider } from '@angular/core'
 import { PpwErrorMessage } from './models/error-message'
 import { extractHttpError } from './error-handling'
+import { createPpwHttpError, PpwHttpError } from './models/http-error'
+import { provideHttpErrorExtractors } from './options/ppw-http-error-extractors'
 
-export const ppwHttpErrorExtractorWithTranslatedMessages = (response: HttpErrorResponse): Error => {
-    if (response.status === 400) {
-        const messages: PpwErrorMessage[] = (response.error.messages ?? []).filter(
-            (msg: PpwErrorMessage) => msg.translated
-        )
-        if (messages?.length) {
-            return new Error(messages.map((msg) => msg.text).join('\n'))
-        } else {
-            return extractHttpError(response, true)
-        }
-    } else {
-        return extractHttpError(response, true)
+/**
+ * Extractor that uses the translated messages of a 400 response as error message.
+ * Returns `null` for other responses so that the next extractor in the chain is consulted.
+ */
+export const translatedMessagesHttpErrorExtractor = (response: HttpErrorResponse): PpwHttpError | null => {
+    if (response.status !== 400) {
+        return null
     }
+
+    const messages: PpwErrorMessage[] = (response.error?.messages ?? []).filter(
+        (msg: PpwErrorMessage) => msg.translated
+    )
+    return messages.length ? createPpwHttpError(response, messages.map((msg) => msg.text).join('\n')) : null
+}
+
+/**
+ * @deprecated Use `provideHttpErrorExtractorWithTranslatedMessages` instead of assigning this function to
+ * `window.ppwcodeHttpErrorExtractor`.
+ */
+export const ppwHttpErrorExtractorWithTranslatedMessages = (response: HttpErrorResponse): PpwHttpError => {
+    return translatedMessagesHttpErrorExtractor(response) ?? extractHttpError(response, true)
 }
+
+/** Provides the extractor that uses the translated messages of a 400 response as error message. */
+export const provideHttpErrorExtractorWithTranslatedMessages = (): Array<Provider> =>
+    provideHttpErrorExtractors(translatedMessagesHttpErrorExtractor)
@@ -1,6 +1,7 @@
 import { HttpErrorResponse } from '@angular/common/http'
 import { firstValueFrom, of, throwError } from 'rxjs'
-import { expectHttpError } from './error-handling'
+import { expectHttpError, extractHttpError } from './error-handling'
+import { PpwHttpError } from './models/http-error'
 
 describe('expectHttpError', () => {
     it('should pass on the received value', async () => {
@@ -46,3 +47,70 @@ describe('expectHttpError', () => {
         expect(handler).toHaveBeenCalled()
     })
 })
+
+describe('extractHttpError', () => {
+    it('should create a structured http error', () => {
+        const error = extractHttpError(new HttpErrorResponse({ status: 409 }))
+
+        expect(error).toBeInstanceOf(PpwHttpError)
+        expect(error.status).toEqual(409)
+        expect(error.message).toEqual('Conflict')
+    })
+
+    it('should use the first field error as message', () => {
+        const error = extractHttpError(
+            new HttpErrorResponse({ status: 400, error: { errors: { name: ['NAME_REQUIRED'], age: ['AGE_INVALID'] } } })
+        )
+
+        expect(error.message).toEqual('NAME_REQUIRED')
+        expect(error.fieldErrors).toEqual({ name: ['NAME_REQUIRED'], age: ['AGE_INVALID'] })
+    })
+
+    it('should use the next message when there are no field errors', () => {
+        const emptyErrors = extractHttpError(
+            new HttpErrorResponse({
+                status: 400,
+                error: { errors: {}, title: 'One or more validation errors occurred.' }
+            })
+        )
+        const nullErrors = extractHttpError(
+            new HttpErrorResponse({ status: 400, error: { errors: null, messages: [{ code: 'INVALID' }] } })
+        )
+
+        expect(emptyErrors.message).toEqual('One or more validation errors occurred.')
+        expect(nullErrors.message).toEqual('INVALID')
+    })
+
+    it('should use the unique constraint parameter as message', () => {
+        const error = extractHttpError(
+            new HttpErrorResponse({
+                status: 409,
+                error: {
+                    messages: [
+                        {
+                            code: 'DB',
+                            infoLevel: 'ERROR',
+                            parameters: ['TABLE', 'UQ_PERSON_NAME'],
+                            text: 'DB_UQ_CONSTRAINT_VIOLATION',
+                            translated: false
+                        }
+                    ]
+                }
+            })
+        )
+
+        expect(error.message).toEqual('UQ_PERSON_NAME')
+        expect(error.hasCode('DB')).toBe(true)
+    })
+
+    it('should wrap errors of the custom extractor', () => {
+        window.ppwcodeHttpErrorExtractor = () => new Error('CUSTOM_MESSAGE')
+
+        const error = extractHttpError(new HttpErrorResponse({ status: 409 }))
+
+        delete window.ppwcodeHttpErrorExtractor
+        expect(error).toBeInstanceOf(PpwHttpError)
+        expect(error.message).toEqual('CUSTOM_MESSAGE')
+        expect(error.status).toEqual(409)
+    })
+})
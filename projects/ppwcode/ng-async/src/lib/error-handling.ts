@@ -2,60 +2,99 @@ import { HttpErrorResponse } from '@angular/common/http'
 import { map, Observable, Subscriber } from 'rxjs'
 import { STATUS_CODE_MAP } from './constants/error-codes'
 import { createFailedAsyncResult } from './models/async-result'
+import { createPpwHttpError, isPpwHttpError, PpwHttpError } from './models/http-error'
 import { createFailedPagedAsyncResult, createSuccessPagedAsyncResult } from './models/paged-async-result'
 import { createEmptyPagedEntities, PagedEntities } from './models/paged-entities'
+import { injectHttpErrorExtractors, PpwHttpErrorExtractor } from './options/ppw-http-error-extractors'
 
 declare global {
     interface Window {
+        /** @deprecated Provide the extractor with `provideHttpErrorExtractors` instead. */
         ppwcodeHttpErrorExtractor?: (httpError: HttpErrorResponse) => Error
     }
 }
 
-export const extractHttpError = (httpError: HttpErrorResponse, skipCustomExtractor: boolean = false): Error => {
-    // When a global error handler has been defined in the application itself, we should use that one instead of the
-    // default implementation that we provided here in the SDK.
-    if (window.ppwcodeHttpErrorExtractor && !skipCustomExtractor) {
-        return window.ppwcodeHttpErrorExtractor(httpError)
+/**
+ * Extracts a PpwHttpError from the given failed response. The error carries the status code, the messages, the
+ * problem details and the field errors of the response.
+ *
+ * The message of the error is determined by the first extractor in the given chain that handles the response. When none
+ * of them does, the deprecated `window.ppwcodeHttpErrorExtractor` or the default implementation of the SDK is used.
+ * @param httpError The failed HTTP response.
+ * @param skipCustomExtractor Whether the custom extractors of the application should be ignored.
+ * @param extractors The chain of extractors to consult, in order.
+ */
+export const extractHttpError = (
+    httpError: HttpErrorResponse,
+    skipCustomExtractor: boolean = false,
+    extractors: Array<PpwHttpErrorExtractor> = []
+): PpwHttpError => {
+    if (!skipCustomExtractor) {
+        // The global extractor is only kept for backwards compatibility and comes after the extractors provided through DI.
+        const globalExtractor = typeof window !== 'undefined' ? window.ppwcodeHttpErrorExtractor : undefined
+        const customExtractors = globalExtractor ? [...extractors, globalExtractor] : extractors
+
+        for (const extractor of customExtractors) {
+            const customError = extractor(httpError)
+            if (customError) {
+                return isPpwHttpError(customError) ? customError : createPpwHttpError(httpError, customError.message)
+            }
+        }
     }
 
+    return createPpwHttpError(httpError, extractHttpErrorMessage(httpError))
+}
+
+const extractHttpErrorMessage = (httpError: HttpErrorResponse): string => {
     if (typeof httpError.error === 'object' && httpError.error !== null) {
-        if (typeof httpError.error.errors === 'object') {
-            const errorKeys = Object.keys(httpError.error.errors)
-            return new Error(httpError.error.errors[errorKeys[0]])
+        const fieldErrorMessage = extractFirstFieldErrorMessage(httpError.error.errors)
+        if (fieldErrorMessage !== null) {
+            return fieldErrorMessage
         }
 
         if (Array.isArray(httpError.error.messages) && httpError.error.messages.length > 0) {
             const firstErrorMessage = httpError.error.messages[0]
             if (firstErrorMessage.text === 'DB_UQ_CONSTRAINT_VIOLATION') {
                 const parameter = firstErrorMessage.parameters?.find((param: string) => param.startsWith('UQ_'))
-                if (parameter) {
-                    return new Error(parameter)
-                } else {
-                    return new Error(firstErrorMessage.text)
-                }
+                return parameter || firstErrorMessage.text
             } else {
-                return new Error(firstErrorMessage.text ?? firstErrorMessage.code)
+                return firstErrorMessage.text ?? firstErrorMessage.code
             }
         }
 
         if (typeof httpError.error.title === 'string') {
-            return new Error(httpError.error.title)
+            return httpError.error.title
         }
     }
 
-    return new Error(httpError.error ?? STATUS_CODE_MAP.get(httpError.status) ?? httpError.statusText)
+    return String(httpError.error ?? STATUS_CODE_MAP.get(httpError.status) ?? httpError.statusText)
+}
+
+/**
+ * Returns the first message of the first field in the `errors` object of a response body, or `null` when there is no
+ * such message, e.g. because `errors` is `null` or empty.
+ */
+const extractFirstFieldErrorMessage = (errors: unknown): string | null => {
+    if (typeof errors !== 'object' || errors === null) {
+        return null
+    }
+
+    const firstError: unknown = Object.values(errors)[0]
+    const message: unknown = Array.isArray(firstError) ? firstError[0] : firstError
+    return message === undefined || message === null ? null : String(message)
 }
 
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 export const expectAsyncResultHttpError = <TEntity>(
     statusCodes: Array<number>,
     fallbackValue: TEntity,
-    completeOnError = true
+    completeOnError = true,
+    extractors: Array<PpwHttpErrorExtractor> = injectHttpErrorExtractors()
 ) =>
     expectHttpError(
         statusCodes,
         (httpError: HttpErrorResponse) => {
-            const error = extractHttpError(httpError)
+            const error = extractHttpError(httpError, false, extractors)
             return createFailedAsyncResult(error, fallbackValue, null)
         },
         completeOnError
@@ -67,7 +106,8 @@ export const expectPagedAsyncResultHttpSuccess = <TEntity, TFilters>(filters?: T
 export const expectPagedAsyncResultHttpError = <TEntity, TFilters = object | null | undefined>(
     statusCodes: Array<number>,
     filters?: TFilters,
-    completeOnError = true
+    completeOnError = true,
+    extractors: Array<PpwHttpErrorExtractor> = injectHttpErrorExtractors()
 ) =>
     function <T>(source: Observable<T>): Observable<T> {
         // This is syntactic sugar for handling the error case of a paged async result. It will create a failed paged async
@@ -77,7 +117,7 @@ export const expectPagedAsyncResultHttpError = <TEntity, TFilters = object | nul
             source,
             statusCodes,
             (httpError: HttpErrorResponse) => {
-                const error = extractHttpError(httpError)
+                const error = extractHttpError(httpError, false, extractors)
                 return createFailedPagedAsyncResult<TEntity, TFilters>(
                     error,
                     createEmptyPagedEntities<TEntity>(),
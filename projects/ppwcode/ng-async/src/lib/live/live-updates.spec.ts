@@ -0,0 +1,144 @@
+import { fakeAsync, tick } from '@angular/core/testing'
+import {
+    applyLiveUpdates,
+    createPagedEntitiesMock,
+    createPendingAsyncResult,
+    createSuccessPagedAsyncResult,
+    entityChangesFromMessages,
+    LivePagedAsyncResult,
+    PagedAsyncResult,
+    PagedEntities
+} from '@ppwcode/ng-async'
+import { of, Subject } from 'rxjs'
+
+interface Job {
+    id: number
+    state: 'queued' | 'running' | 'done'
+}
+
+describe('live updates', () => {
+    let results$: Subject<PagedAsyncResult<Job, { state: string }>>
+    let socket: EventTarget
+    let lastResult: LivePagedAsyncResult<Job, { state: string }> | undefined
+
+    const send = (data: unknown) => socket.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(data) }))
+    const page = (...items: Array<Job>): PagedEntities<Job> => ({ ...createPagedEntitiesMock(items), pageSize: 2 })
+    const ids = () => lastResult?.entity.items.map((job) => job.id)
+
+    beforeEach(() => {
+        results$ = new Subject()
+        socket = new EventTarget()
+        lastResult = undefined
+        results$
+            .pipe(
+                applyLiveUpdates(entityChangesFromMessages<Job>(socket), {
+                    trackBy: 'id',
+                    matchesFilters: (job, filters) => filters?.state === 'all' || job.state !== 'done',
+                    highlightDuration: 1000
+                })
+            )
+            .subscribe((result) => (lastResult = result))
+    })
+
+    it('should patch created, updated and deleted entities and keep the total count consistent', fakeAsync(() => {
+        results$.next(createSuccessPagedAsyncResult(page({ id: 1, state: 'queued' }), { state: 'open' }))
+        expect(lastResult?.changedKeys.size).toBe(0)
+
+        send({ type: 'created', entity: { id: 2, state: 'queued' } })
+        expect(ids()).toEqual([2, 1])
+        expect(lastResult?.entity.totalCount).toBe(2)
+
+        send({ type: 'created', entity: { id: 3, state: 'queued' } })
+        expect(lastResult?.entity.totalCount).toBe(3)
+        expect(lastResult?.entity.totalPages).toBe(2)
+        expect(lastResult?.entity.hasNextPage).toBe(true)
+
+        send({ type: 'updated', entity: { id: 1, state: 'running' } })
+        expect(lastResult?.entity.items[2]).toEqual({ id: 1, state: 'running' })
+        expect(lastResult?.entity.totalCount).toBe(3)
+
+        send({ type: 'deleted', key: 2 })
+        expect(ids()).toEqual([3, 1])
+        expect(lastResult?.entity.totalCount).toBe(2)
+        expect(lastResult?.entity.hasNextPage).toBe(false)
+
+        tick(1000)
+    }))
+
+    it('should remove updated entities that no longer match the filters', fakeAsync(() => {
+        results$.next(createSuccessPagedAsyncResult(page({ id: 1, state: 'running' }), { state: 'open' }))
+
+        send({ type: 'updated', entity: { id: 1, state: 'done' } })
+        send({ type: 'created', entity: { id: 2, state: 'done' } })
+        send({ type: 'updated', entity: { id: 3, state: 'running' } })
+
+        expect(ids()).toEqual([])
+        expect(lastResult?.entity.totalCount).toBe(0)
+        tick(1000)
+    }))
+
+    it('should decrease the total count for deleted entities on other pages that match the filters', fakeAsync(() => {
+        results$.next(
+            createSuccessPagedAsyncResult(
+                { ...page({ id: 1, state: 'queued' }, { id: 2, state: 'queued' }), totalCount: 5, totalPages: 3 },
+                { state: 'open' }
+            )
+        )
+
+        send({ type: 'deleted', key: 3 })
+        expect(lastResult?.entity.totalCount).toBe(5)
+
+        send({ type: 'deleted', key: 3, entity: { id: 3, state: 'done' } })
+        expect(lastResult?.entity.totalCount).toBe(5)
+
+        send({ type: 'deleted', key: 3, entity: { id: 3, state: 'queued' } })
+        expect(ids()).toEqual([1, 2])
+        expect(lastResult?.entity.totalCount).toBe(4)
+        expect(lastResult?.entity.totalPages).toBe(2)
+        tick(1000)
+    }))
+
+    it('should decrease the total count for all deleted entities on other pages without filter matching', fakeAsync(() => {
+        let result: LivePagedAsyncResult<Job, null> | undefined
+        of(createSuccessPagedAsyncResult({ ...page({ id: 1, state: 'queued' }), totalCount: 3, totalPages: 2 }, null))
+            .pipe(applyLiveUpdates(entityChangesFromMessages<Job>(socket), { trackBy: 'id', highlightDuration: 1000 }))
+            .subscribe((liveResult) => (result = liveResult))
+
+        send({ type: 'deleted', key: 3 })
+        expect(result?.entity.totalCount).toBe(2)
+
+        send({ type: 'deleted', key: 4 })
+        expect(result?.entity.totalCount).toBe(1)
+        expect(result?.entity.hasNextPage).toBe(false)
+        tick(1000)
+    }))
+
+    it('should flag the changed keys until the highlight duration has passed', fakeAsync(() => {
+        results$.next(createSuccessPagedAsyncResult(page({ id: 1, state: 'queued' }), { state: 'open' }))
+
+        send({ type: 'updated', entity: { id: 1, state: 'running' } })
+        expect(Array.from(lastResult?.changedKeys ?? [])).toEqual([1])
+
+        tick(600)
+        send({ type: 'updated', entity: { id: 1, state: 'queued' } })
+        tick(600)
+        expect(Array.from(lastResult?.changedKeys ?? [])).toEqual([1])
+
+        tick(400)
+        expect(lastResult?.changedKeys.size).toBe(0)
+    }))
+
+    it('should ignore changes while there is no successful result and reset on a new result', fakeAsync(() => {
+        send({ type: 'created', entity: { id: 1, state: 'queued' } })
+        expect(lastResult).toBeUndefined()
+
+        results$.next(createPendingAsyncResult(page(), { state: 'open' }))
+        send({ type: 'created', entity: { id: 1, state: 'queued' } })
+        expect(ids()).toEqual([])
+
+        results$.next(createSuccessPagedAsyncResult(page({ id: 5, state: 'queued' }), { state: 'open' }))
+        expect(ids()).toEqual([5])
+        expect(lastResult?.changedKeys.size).toBe(0)
+        tick(1000)
+    }))
+})
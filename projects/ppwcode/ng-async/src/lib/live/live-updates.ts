@@ -0,0 +1,220 @@
+import { TrackByFunction } from '@angular/core'
+import {
+    concat,
+    defer,
+    filter,
+    fromEvent,
+    map,
+    merge,
+    mergeMap,
+    Observable,
+    of,
+    OperatorFunction,
+    scan,
+    timer
+} from 'rxjs'
+import { PagedAsyncResult } from '../models/paged-async-result'
+import { PagedEntities } from '../models/paged-entities'
+import { PpwTrackBy, toTrackByFunction } from '../models/track-by'
+
+/** A change of an entity that is pushed by the back-end, e.g. over a WebSocket or with server-sent events. */
+export type PpwEntityChange<TEntity> =
+    | { type: 'created'; entity: TEntity }
+    | { type: 'updated'; entity: TEntity }
+    | {
+          type: 'deleted'
+          key: unknown
+          /** The deleted entity, to determine whether it matched the filters when it is not on the current page. */
+          entity?: TEntity
+      }
+
+/** A paged async result that is kept up to date with live changes. */
+export type LivePagedAsyncResult<TEntity, TFilters> = PagedAsyncResult<TEntity, TFilters> & {
+    /**
+     * The trackBy values of the items that were created or updated by a live change, to highlight them, e.g. with the
+     * `highlightedRows` input of `<ppw-table>`.
+     */
+    changedKeys: ReadonlySet<unknown>
+}
+
+export interface LiveUpdatesOptions<TEntity, TFilters> {
+    /** Identifies the items, to find the item that is updated or deleted. */
+    trackBy: PpwTrackBy<TEntity>
+    /**
+     * Whether a created or updated entity matches the filters of the result. Entities that don't match are not added,
+     * updated entities that don't match anymore are removed. By default, all entities match.
+     */
+    matchesFilters?: (entity: TEntity, filters: TFilters | null) => boolean
+    /** Where created entities are added to the page. Defaults to `start`. */
+    insertAt?: 'start' | 'end'
+    /** The time in milliseconds that a changed item is in the changed keys. Defaults to 3 seconds. */
+    highlightDuration?: number
+}
+
+type LiveUpdatesEvent<TEntity, TFilters> =
+    | { kind: 'result'; result: PagedAsyncResult<TEntity, TFilters> }
+    | { kind: 'change'; change: PpwEntityChange<TEntity>; version: number }
+    | { kind: 'expire'; key: unknown; version: number }
+
+interface LiveUpdatesState<TEntity, TFilters> {
+    result: PagedAsyncResult<TEntity, TFilters> | null
+    /** The version of the last change per changed key, so an expired highlight doesn't remove a newer one. */
+    changedKeys: Map<unknown, number>
+}
+
+/**
+ * Patches the live changes of entities into the successful paged async results of the source. The `totalCount`,
+ * `totalPages` and `hasNextPage` of the entities are kept consistent with the added and removed items. Changes that
+ * arrive while there is no successful result are ignored, the next result is expected to contain them.
+ *
+ * Updated entities that are not on the current page are ignored, because their position is not known. Deleted entities
+ * that are not on the current page decrease the total count when they match the filters: always when there is no
+ * `matchesFilters`, otherwise only when the change carries the deleted entity and it matches.
+ *
+ * @param changes$ The stream of entity changes, e.g. `entityChangesFromMessages(webSocket)`.
+ * @param options The trackBy of the items, the filtering and the highlighting of the changes.
+ */
+export const applyLiveUpdates = <TEntity, TFilters>(
+    changes$: Observable<PpwEntityChange<TEntity>>,
+    options: LiveUpdatesOptions<TEntity, TFilters>
+): OperatorFunction<PagedAsyncResult<TEntity, TFilters>, LivePagedAsyncResult<TEntity, TFilters>> => {
+    const keyOf = toTrackByFunction(options.trackBy)
+    const highlightDuration = options.highlightDuration ?? 3000
+
+    return (source: Observable<PagedAsyncResult<TEntity, TFilters>>) =>
+        defer(() => {
+            let version = 0
+            const changeEvents$: Observable<LiveUpdatesEvent<TEntity, TFilters>> = changes$.pipe(
+                mergeMap((change) => {
+                    const changeVersion = ++version
+                    const key = change.type === 'deleted' ? change.key : keyOf(-1, change.entity)
+                    return concat(
+                        of({ kind: 'change' as const, change, version: changeVersion }),
+                        timer(highlightDuration).pipe(
+                            map(() => ({ kind: 'expire' as const, key, version: changeVersion }))
+                        )
+                    )
+                })
+            )
+
+            return merge(source.pipe(map((result) => ({ kind: 'result' as const, result }))), changeEvents$).pipe(
+                scan(
+                    (state: LiveUpdatesState<TEntity, TFilters>, event: LiveUpdatesEvent<TEntity, TFilters>) =>
+                        reduceLiveUpdatesEvent(state, event, keyOf, options),
+                    { result: null, changedKeys: new Map() }
+                ),
+                filter(
+                    (
+                        state: LiveUpdatesState<TEntity, TFilters>
+                    ): state is LiveUpdatesState<TEntity, TFilters> & { result: PagedAsyncResult<TEntity, TFilters> } =>
+                        state.result !== null
+                ),
+                map((state) => ({ ...state.result, changedKeys: new Set(state.changedKeys.keys()) }))
+            )
+        })
+}
+
+/**
+ * Converts the messages of a WebSocket, an EventSource or any other target of message events to entity changes.
+ * A fake socket for tests can be an `EventTarget` that dispatches `MessageEvent`s.
+ * @param target The target of the message events.
+ * @param parse Parses the data of a message. Defaults to `JSON.parse`.
+ */
+export const entityChangesFromMessages = <TEntity>(
+    target: EventTarget,
+    parse: (data: unknown) => PpwEntityChange<TEntity> = (data) => JSON.parse(String(data))
+): Observable<PpwEntityChange<TEntity>> =>
+    fromEvent<MessageEvent>(target, 'message').pipe(map((event: MessageEvent) => parse(event.data)))
+
+const reduceLiveUpdatesEvent = <TEntity, TFilters>(
+    state: LiveUpdatesState<TEntity, TFilters>,
+    event: LiveUpdatesEvent<TEntity, TFilters>,
+    keyOf: TrackByFunction<TEntity>,
+    options: LiveUpdatesOptions<TEntity, TFilters>
+): LiveUpdatesState<TEntity, TFilters> => {
+    switch (event.kind) {
+        case 'result':
+            return { result: event.result, changedKeys: new Map() }
+        case 'expire': {
+            if (state.changedKeys.get(event.key) !== event.version) {
+                return state
+            }
+            const changedKeys = new Map(state.changedKeys)
+            changedKeys.delete(event.key)
+            return { ...state, changedKeys }
+        }
+        case 'change': {
+            if (state.result?.status !== 'success') {
+                return state
+            }
+            const entity = applyChange(state.result.entity, state.result.filters, event.change, keyOf, options)
+            if (entity === state.result.entity) {
+                return state
+            }
+            const changedKeys = new Map(state.changedKeys)
+            if (event.change.type === 'deleted') {
+                changedKeys.delete(event.change.key)
+            } else {
+                changedKeys.set(keyOf(-1, event.change.entity), event.version)
+            }
+            return { result: { ...state.result, entity }, changedKeys }
+        }
+    }
+}
+
+/** Applies the change to the entities, returns the same entities when the change doesn't affect them. */
+const applyChange = <TEntity, TFilters>(
+    entities: PagedEntities<TEntity>,
+    filters: TFilters | null,
+    change: PpwEntityChange<TEntity>,
+    keyOf: TrackByFunction<TEntity>,
+    options: LiveUpdatesOptions<TEntity, TFilters>
+): PagedEntities<TEntity> => {
+    const key = change.type === 'deleted' ? change.key : keyOf(-1, change.entity)
+    const index = entities.items.findIndex((item, itemIndex) => keyOf(itemIndex, item) === key)
+    const matches = change.type !== 'deleted' && (options.matchesFilters?.(change.entity, filters) ?? true)
+
+    if (index > -1 && matches) {
+        const items = [...entities.items]
+        items[index] = (change as { entity: TEntity }).entity
+        return { ...entities, items }
+    }
+    if (index > -1) {
+        return withTotalCount(
+            { ...entities, items: entities.items.filter((_item, itemIndex) => itemIndex !== index) },
+            entities.totalCount - 1
+        )
+    }
+    if (change.type === 'created' && matches) {
+        const items =
+            options.insertAt === 'end' ? [...entities.items, change.entity] : [change.entity, ...entities.items]
+        return withTotalCount({ ...entities, items }, entities.totalCount + 1)
+    }
+    if (change.type === 'deleted' && isDeletedFromFilteredSet(change.entity, filters, options)) {
+        // The entities up to and including the current page are known to exist, the total count can't drop below them.
+        const minimumTotalCount = (entities.pageIndex - 1) * entities.pageSize + entities.items.length
+        return withTotalCount(entities, Math.max(minimumTotalCount, entities.totalCount - 1))
+    }
+
+    return entities
+}
+
+/** Whether an entity that is deleted off the current page was part of the filtered entities. */
+const isDeletedFromFilteredSet = <TEntity, TFilters>(
+    entity: TEntity | undefined,
+    filters: TFilters | null,
+    options: LiveUpdatesOptions<TEntity, TFilters>
+): boolean => {
+    if (!options.matchesFilters) {
+        return true
+    }
+    return entity !== undefined && options.matchesFilters(entity, filters)
+}
+
+const withTotalCount = <TEntity>(entities: PagedEntities<TEntity>, totalCount: number): PagedEntities<TEntity> => {
+    if (totalCount === entities.totalCount) {
+        return entities
+    }
+    const totalPages = Math.max(1, Math.ceil(totalCount / entities.pageSize))
+    return { ...entities, totalCount, totalPages, hasNextPage: entities.pageIndex < totalPages }
+}
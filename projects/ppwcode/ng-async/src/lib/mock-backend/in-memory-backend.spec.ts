@@ -0,0 +1,212 @@
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http'
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
+import { fakeAsync, TestBed, tick } from '@angular/core/testing'
+import { createPagedRequest, PagedEntitiesDto, serializePagedRequest } from '@ppwcode/ng-async'
+import { firstValueFrom } from 'rxjs'
+import { InMemoryBackend, inMemoryBackendInterceptor, InMemoryBackendOptions } from './in-memory-backend'
+
+interface Player extends Record<string, unknown> {
+    id: number
+    firstName: string
+    lastName: string
+    age: number
+}
+
+const PLAYERS: Array<Player> = [
+    { id: 1, firstName: 'Lionel', lastName: 'Messi', age: 35 },
+    { id: 2, firstName: 'Christiano', lastName: 'Ronaldo', age: 34 },
+    { id: 3, firstName: 'Kevin', lastName: 'De Bruyne', age: 31 },
+    { id: 4, firstName: 'Eden', lastName: 'Hazard', age: 32 },
+    { id: 5, firstName: 'Roberto', lastName: 'Carlos', age: 48 }
+]
+
+describe('InMemoryBackend', () => {
+    let backend: InMemoryBackend
+    let httpClient: HttpClient
+
+    const setup = (options: Partial<InMemoryBackendOptions> = {}): void => {
+        backend = new InMemoryBackend({ collections: { players: PLAYERS }, ...options })
+        TestBed.configureTestingModule({
+            providers: [
+                provideHttpClient(withInterceptors([inMemoryBackendInterceptor(backend)])),
+                provideHttpClientTesting()
+            ]
+        })
+        httpClient = TestBed.inject(HttpClient)
+    }
+
+    const getError = (request: Promise<unknown>): Promise<HttpErrorResponse> =>
+        request.then(
+            () => fail('Expected an error response.') as never,
+            (error: HttpErrorResponse) => error
+        )
+
+    describe('list queries', () => {
+        beforeEach(() => setup())
+
+        it('should return a page of the collection', async () => {
+            const page = await firstValueFrom(
+                httpClient.get<PagedEntitiesDto<Player>>('/api/players', {
+                    params: serializePagedRequest({ ...createPagedRequest(null, 2), pageIndex: 2 })
+                })
+            )
+
+            expect(page).toEqual({
+                pageIndex: 2,
+                pageSize: 2,
+                totalCount: 5,
+                totalPages: 3,
+                hasPreviousPage: true,
+                hasNextPage: true,
+                items: [PLAYERS[2], PLAYERS[3]]
+            })
+        })
+
+        it('should sort the items', async () => {
+            const page = await firstValueFrom(
+                httpClient.get<PagedEntitiesDto<Player>>('/api/players', {
+                    params: serializePagedRequest({
+                        ...createPagedRequest(null),
+                        sort: [{ property: 'age', direction: 'desc' }]
+                    })
+                })
+            )
+
+            expect(page.items.map((player) => player.age)).toEqual([48, 35, 34, 32, 31])
+        })
+
+        it('should filter the items on the filter parameters', async () => {
+            const page = await firstValueFrom(
+                httpClient.get<PagedEntitiesDto<Player>>('/api/players', {
+                    params: serializePagedRequest(createPagedRequest({ lastName: 'r', age: [34, 48] }))
+                })
+            )
+
+            expect(page.items).toEqual([PLAYERS[1], PLAYERS[4]])
+            expect(page.totalCount).toBe(2)
+        })
+
+        it('should return one empty page when no items match', async () => {
+            const page = await firstValueFrom(
+                httpClient.get<PagedEntitiesDto<Player>>('/api/players', {
+                    params: serializePagedRequest(createPagedRequest({ lastName: 'unknown' }))
+                })
+            )
+
+            expect(page).toEqual({
+                pageIndex: 1,
+                pageSize: 20,
+                totalCount: 0,
+                totalPages: 1,
+                hasPreviousPage: false,
+                hasNextPage: false,
+                items: []
+            })
+        })
+
+        it('should use the custom filter of the collection', async () => {
+            TestBed.resetTestingModule()
+            setup({
+                collections: {
+                    players: {
+                        items: PLAYERS,
+                        filter: (player, params) => (player as Player).age >= Number(params.get('minimumAge'))
+                    }
+                }
+            })
+
+            const page = await firstValueFrom(
+                httpClient.get<PagedEntitiesDto<Player>>('/api/players', { params: { minimumAge: 34 } })
+            )
+
+            expect(page.items.map((player) => player.id)).toEqual([1, 2, 5])
+        })
+    })
+
+    describe('crud', () => {
+        beforeEach(() => setup())
+
+        it('should return an item by its id', async () => {
+            expect(await firstValueFrom(httpClient.get('/api/players/3'))).toEqual(PLAYERS[2])
+        })
+
+        it('should return a 404 error response for an unknown id', async () => {
+            const error = await getError(firstValueFrom(httpClient.get('/api/players/99')))
+
+            expect(error.status).toBe(404)
+            expect(error.statusText).toBe('Not Found')
+        })
+
+        it('should create an item with a generated id', async () => {
+            const created = await firstValueFrom(
+                httpClient.post('/api/players', { firstName: 'Dries', lastName: 'Mertens', age: 36 })
+            )
+
+            expect(created).toEqual({ id: 6, firstName: 'Dries', lastName: 'Mertens', age: 36 })
+            expect(backend.items('players').length).toBe(6)
+            expect(PLAYERS.length).toBe(5)
+        })
+
+        it('should replace and patch an item', async () => {
+            await firstValueFrom(httpClient.put('/api/players/1', { firstName: 'Leo', lastName: 'Messi', age: 36 }))
+            expect(backend.items('players')[0]).toEqual({ id: 1, firstName: 'Leo', lastName: 'Messi', age: 36 })
+
+            await firstValueFrom(httpClient.patch('/api/players/1', { age: 37 }))
+            expect(backend.items('players')[0]).toEqual({ id: 1, firstName: 'Leo', lastName: 'Messi', age: 37 })
+        })
+
+        it('should delete an item', async () => {
+            const response = await firstValueFrom(httpClient.delete('/api/players/2', { observe: 'response' }))
+
+            expect(response.status).toBe(204)
+            expect(backend.items<Player>('players').map((player) => player.id)).toEqual([1, 3, 4, 5])
+        })
+
+        it('should restore the initial items on reset', async () => {
+            await firstValueFrom(httpClient.delete('/api/players/2'))
+            backend.reset()
+
+            expect(backend.items('players')).toEqual(PLAYERS)
+        })
+
+        it('should pass on requests outside the base url or for unknown collections', () => {
+            httpClient.get('/other/players').subscribe()
+            httpClient.get('/api/teams').subscribe()
+
+            const httpTestingController = TestBed.inject(HttpTestingController)
+            httpTestingController.expectOne('/other/players')
+            httpTestingController.expectOne('/api/teams')
+        })
+    })
+
+    describe('simulation', () => {
+        it('should delay the responses with the latency', fakeAsync(() => {
+            setup({ latency: 1000 })
+            let response: unknown = null
+            httpClient.get('/api/players/1').subscribe((player) => (response = player))
+
+            tick(999)
+            expect(response).toBeNull()
+            tick(1)
+            expect(response).toEqual(PLAYERS[0])
+        }))
+
+        it('should fail the configured requests', async () => {
+            setup({ errors: [{ method: 'POST', url: '/api/players', status: 409 }] })
+
+            const error = await getError(firstValueFrom(httpClient.post('/api/players', { firstName: 'Dries' })))
+
+            expect(error.status).toBe(409)
+            expect(error.statusText).toBe('Conflict')
+            expect(await firstValueFrom(httpClient.get('/api/players/1'))).toEqual(PLAYERS[0])
+        })
+
+        it('should fail requests randomly with the error rate', async () => {
+            setup({ errorRate: 1, errorStatusCodes: [503] })
+
+            const error = await getError(firstValueFrom(httpClient.get('/api/players/1')))
+
+            expect(error.status).toBe(503)
+        })
+    })
+})
@@ -0,0 +1,348 @@
+import {
+    HTTP_INTERCEPTORS,
+    HttpErrorResponse,
+    HttpEvent,
+    HttpHandler,
+    HttpInterceptor,
+    HttpInterceptorFn,
+    HttpParams,
+    HttpRequest,
+    HttpResponse,
+    HttpStatusCode
+} from '@angular/common/http'
+import { Provider } from '@angular/core'
+import { mergeMap, Observable, of, throwError, timer } from 'rxjs'
+import { STATUS_CODE_MAP } from '../constants/error-codes'
+import { PagedEntitiesDto } from '../models/paged-entities'
+import { parsePagedRequest, PpwPagedRequestSerializerOptions, PpwSortDescriptor } from '../models/paged-request'
+
+type InMemoryEntity = Record<string, unknown>
+
+export interface InMemoryCollection<T extends InMemoryEntity = InMemoryEntity> {
+    /** The initial items of the collection. The array is copied, the fixtures are never mutated. */
+    items: Array<T>
+    /** The property that identifies an item in the url, e.g. `/api/players/3`. Defaults to `id`. */
+    idProperty?: string
+    /**
+     * Matches an item against the filter parameters of a list query. By default every parameter that isn't a page
+     * parameter is matched against the property with the same dot-separated name: strings match when they contain the
+     * value case-insensitively, other values when their string representation equals the value. A repeated parameter
+     * matches when one of its values matches.
+     */
+    filter?: (item: T, params: HttpParams) => boolean
+    /** Generates the id of a created item that doesn't have one. Defaults to the highest numeric id plus one. */
+    generateId?: (items: Array<T>) => unknown
+}
+
+export interface InMemoryBackendError {
+    /** The HTTP method of the requests that fail. When omitted, requests with any method fail. */
+    method?: string
+    /** The url of the requests that fail. A string matches urls that contain it. */
+    url: string | RegExp
+    /** The status code of the error response. */
+    status: number
+}
+
+/** The names of the page parameters of list queries are the same as in `serializePagedRequest`. */
+export interface InMemoryBackendOptions
+    extends Pick<PpwPagedRequestSerializerOptions, 'pageIndexParam' | 'pageSizeParam' | 'sortParam'> {
+    /** The collections by name, served on `${baseUrl}/${name}`. */
+    collections: Record<string, InMemoryCollection | Array<InMemoryEntity>>
+    /** The path the collections are served on. Defaults to `/api`. */
+    baseUrl?: string
+    /** The latency of every response in milliseconds, or a range to pick a random latency from. Defaults to 0. */
+    latency?: number | { min: number; max: number }
+    /** The requests that fail with an error response. */
+    errors?: Array<InMemoryBackendError>
+    /** The chance between 0 and 1 that a request fails randomly. Defaults to 0. */
+    errorRate?: number
+    /** The status codes to pick from when a request fails randomly. Defaults to `[500, 503]`. */
+    errorStatusCodes?: Array<number>
+    /** The page size of list queries without page size parameter. Defaults to 20. */
+    defaultPageSize?: number
+}
+
+interface CollectionState {
+    items: Array<InMemoryEntity>
+    idProperty: string
+    filter?: (item: InMemoryEntity, params: HttpParams) => boolean
+    generateId: (items: Array<InMemoryEntity>) => unknown
+}
+
+const DEFAULT_ERROR_STATUS_CODES = [500, 503]
+
+/**
+ * Stand-in for a REST API that serves CRUD endpoints from in-memory fixtures, for demos and integration tests.
+ *
+ * - `GET /api/players` returns a page of the collection as `PagedEntitiesDto`, see `serializePagedRequest` for the
+ *   supported page, sort and filter parameters.
+ * - `GET /api/players/3` returns the item, or a 404 error response.
+ * - `POST /api/players` adds the body to the collection and returns it with status 201.
+ * - `PUT /api/players/3` replaces the item, `PATCH /api/players/3` merges the body into the item.
+ * - `DELETE /api/players/3` removes the item and returns status 204.
+ *
+ * Requests for urls outside the base url or for unknown collections are not handled.
+ */
+export class InMemoryBackend {
+    #options: InMemoryBackendOptions
+    #collections = new Map<string, CollectionState>()
+
+    constructor(options: InMemoryBackendOptions) {
+        this.#options = options
+        this.reset()
+    }
+
+    /** Restores the collections to their initial items. */
+    public reset(): void {
+        this.#collections.clear()
+        Object.entries(this.#options.collections).forEach(([name, collection]) => {
+            const { items, idProperty, filter, generateId } = Array.isArray(collection)
+                ? ({ items: collection } as InMemoryCollection)
+                : collection
+            this.#collections.set(name, {
+                items: [...items],
+                idProperty: idProperty ?? 'id',
+                filter,
+                generateId: generateId ?? ((items) => generateNumericId(items, idProperty ?? 'id'))
+            })
+        })
+    }
+
+    /**
+     * Returns the current items of a collection.
+     * @param name The name of the collection.
+     */
+    public items<T extends InMemoryEntity = InMemoryEntity>(name: string): Array<T> {
+        return [...((this.#collections.get(name)?.items ?? []) as Array<T>)]
+    }
+
+    /**
+     * Handles the request, or returns `null` when the request isn't served by the backend.
+     * @param request The HTTP request.
+     */
+    public handle(request: HttpRequest<unknown>): Observable<HttpEvent<unknown>> | null {
+        const route = this.#route(request.url)
+        if (!route) {
+            return null
+        }
+
+        return timer(this.#latency()).pipe(
+            mergeMap(() => {
+                const errorStatus = this.#errorStatus(request)
+                if (errorStatus !== null) {
+                    return this.#error(request, errorStatus)
+                }
+                return this.#respond(request, route.collection, route.id)
+            })
+        )
+    }
+
+    #route(url: string): { collection: CollectionState; id: string | null } | null {
+        const baseUrl = (this.#options.baseUrl ?? '/api').replace(/\/$/, '')
+        const path = new URL(url, 'http://localhost').pathname
+        if (!path.startsWith(`${baseUrl}/`)) {
+            return null
+        }
+
+        const [name, id, ...rest] = path.slice(baseUrl.length + 1).split('/')
+        const collection = this.#collections.get(name)
+        if (!collection || rest.length) {
+            return null
+        }
+        return { collection, id: id ? decodeURIComponent(id) : null }
+    }
+
+    #respond(
+        request: HttpRequest<unknown>,
+        collection: CollectionState,
+        id: string | null
+    ): Observable<HttpEvent<unknown>> {
+        if (id === null) {
+            switch (request.method) {
+                case 'GET':
+                    return this.#ok(request, this.#page(collection, request.params))
+                case 'POST':
+                    return this.#create(request, collection)
+                default:
+                    return this.#error(request, 405)
+            }
+        }
+
+        const index = collection.items.findIndex((item) => String(item[collection.idProperty]) === id)
+        if (index === -1) {
+            return this.#error(request, 404)
+        }
+
+        const item = collection.items[index]
+        switch (request.method) {
+            case 'GET':
+                return this.#ok(request, { ...item })
+            case 'PUT':
+            case 'PATCH': {
+                const body = request.body as InMemoryEntity
+                const updatedItem = {
+                    ...(request.method === 'PATCH' ? item : {}),
+                    ...body,
+                    [collection.idProperty]: item[collection.idProperty]
+                }
+                collection.items[index] = updatedItem
+                return this.#ok(request, { ...updatedItem })
+            }
+            case 'DELETE':
+                collection.items.splice(index, 1)
+                return this.#ok(request, null, HttpStatusCode.NoContent)
+            default:
+                return this.#error(request, 405)
+        }
+    }
+
+    #create(request: HttpRequest<unknown>, collection: CollectionState): Observable<HttpEvent<unknown>> {
+        const body = request.body as InMemoryEntity
+        const createdItem = {
+            ...body,
+            [collection.idProperty]: body[collection.idProperty] ?? collection.generateId(collection.items)
+        }
+        if (collection.items.some((item) => item[collection.idProperty] === createdItem[collection.idProperty])) {
+            return this.#error(request, 409)
+        }
+
+        collection.items.push(createdItem)
+        return this.#ok(request, { ...createdItem }, HttpStatusCode.Created)
+    }
+
+    #page(collection: CollectionState, params: HttpParams): PagedEntitiesDto<InMemoryEntity> {
+        const { pageIndexParam = 'pageIndex', pageSizeParam = 'pageSize', sortParam = 'sort' } = this.#options
+        const { pageIndex, pageSize, sort } = parsePagedRequest(
+            params,
+            { pageIndexParam, pageSizeParam, sortParam },
+            this.#options.defaultPageSize
+        )
+        const filterParams = params
+            .keys()
+            .filter((name) => ![pageIndexParam, pageSizeParam, sortParam].includes(name))
+            .reduce((filters, name) => filters.appendAll({ [name]: params.getAll(name) ?? [] }), new HttpParams())
+
+        const items = collection.items
+            .filter((item) => (collection.filter ?? matchesFilterParams)(item, filterParams))
+            .sort(compareBySortDescriptors(sort))
+        // An empty collection has one empty page, like `createEmptyPagedEntities`.
+        const totalPages = Math.max(1, Math.ceil(items.length / pageSize))
+        return {
+            pageIndex,
+            pageSize,
+            totalCount: items.length,
+            totalPages,
+            hasPreviousPage: pageIndex > 1,
+            hasNextPage: pageIndex < totalPages,
+            items: items.slice((pageIndex - 1) * pageSize, pageIndex * pageSize).map((item) => ({ ...item }))
+        }
+    }
+
+    #ok(
+        request: HttpRequest<unknown>,
+        body: unknown,
+        status: number = HttpStatusCode.Ok
+    ): Observable<HttpEvent<unknown>> {
+        return of(new HttpResponse({ body, status, statusText: STATUS_CODE_MAP.get(status) ?? 'OK', url: request.url }))
+    }
+
+    #error(request: HttpRequest<unknown>, status: number): Observable<never> {
+        return throwError(
+            () => new HttpErrorResponse({ status, statusText: STATUS_CODE_MAP.get(status) ?? '', url: request.url })
+        )
+    }
+
+    #errorStatus(request: HttpRequest<unknown>): number | null {
+        const configuredError = this.#options.errors?.find(
+            (error) =>
+                (!error.method || error.method.toUpperCase() === request.method) &&
+                (typeof error.url === 'string' ? request.url.includes(error.url) : error.url.test(request.url))
+        )
+        if (configuredError) {
+            return configuredError.status
+        }
+
+        if (Math.random() < (this.#options.errorRate ?? 0)) {
+            const statusCodes = this.#options.errorStatusCodes ?? DEFAULT_ERROR_STATUS_CODES
+            return statusCodes[Math.floor(Math.random() * statusCodes.length)]
+        }
+        return null
+    }
+
+    #latency(): number {
+        const latency = this.#options.latency ?? 0
+        return typeof latency === 'number' ? latency : latency.min + Math.random() * (latency.max - latency.min)
+    }
+}
+
+/**
+ * Creates a functional interceptor that serves the requests of the in-memory backend, other requests are passed on.
+ *
+ * `provideHttpClient(withInterceptors([inMemoryBackendInterceptor({ collections: { players: PLAYERS } })]))`
+ * @param options The collections, latency and errors of the backend.
+ */
+export const inMemoryBackendInterceptor = (options: InMemoryBackendOptions | InMemoryBackend): HttpInterceptorFn => {
+    const backend = options instanceof InMemoryBackend ? options : new InMemoryBackend(options)
+    return (request, next) => backend.handle(request) ?? next(request)
+}
+
+/**
+ * Provides the in-memory backend as interceptor, for applications that use `withInterceptorsFromDi()`.
+ * @param options The collections, latency and errors of the backend.
+ */
+export const provideInMemoryBackend = (options: InMemoryBackendOptions | InMemoryBackend): Provider => {
+    const interceptor = inMemoryBackendInterceptor(options)
+    return {
+        provide: HTTP_INTERCEPTORS,
+        multi: true,
+        useValue: {
+            intercept: (request: HttpRequest<unknown>, next: HttpHandler) =>
+                interceptor(request, (nextRequest) => next.handle(nextRequest))
+        } satisfies HttpInterceptor
+    }
+}
+
+const generateNumericId = (items: Array<InMemoryEntity>, idProperty: string): number =>
+    items.reduce((maxId, item) => Math.max(maxId, Number(item[idProperty]) || 0), 0) + 1
+
+const getPropertyValue = (item: InMemoryEntity, path: string): unknown =>
+    path.split('.').reduce<unknown>((value, key) => (value as InMemoryEntity | null | undefined)?.[key], item)
+
+const matchesFilterParams = (item: InMemoryEntity, params: HttpParams): boolean =>
+    params.keys().every((name) => {
+        const value = getPropertyValue(item, name)
+        return (params.getAll(name) ?? []).some((filterValue) =>
+            typeof value === 'string'
+                ? value.toLowerCase().includes(filterValue.toLowerCase())
+                : String(value) === filterValue
+        )
+    })
+
+const compareBySortDescriptors =
+    (sort: Array<PpwSortDescriptor>) =>
+    (a: InMemoryEntity, b: InMemoryEntity): number => {
+        for (const { property, direction } of sort) {
+            const comparison = compareValues(getPropertyValue(a, property), getPropertyValue(b, property))
+            if (comparison !== 0) {
+                return direction === 'desc' ? -comparison : comparison
+            }
+        }
+        return 0
+    }
+
+const compareValues = (a: unknown, b: unknown): number => {
+    if (a === b) {
+        return 0
+    }
+    if (a === null || a === undefined) {
+        return -1
+    }
+    if (b === null || b === undefined) {
+        return 1
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a.localeCompare(b)
+    }
+    // Dates and date-time objects are compared by their `valueOf`.
+    return Number(a) < Number(b) ? -1 : Number(a) > Number(b) ? 1 : 0
+}
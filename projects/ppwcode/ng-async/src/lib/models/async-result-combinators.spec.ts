@@ -0,0 +1,106 @@
+import {
+    AsyncResult,
+    combineAsyncResults,
+    createFailedAsyncResult,
+    createInitialAsyncResult,
+    createPendingAsyncResult,
+    createSuccessAsyncResult,
+    mapAsyncResult,
+    switchMapAsyncResult,
+    unwrapOrThrow
+} from '@ppwcode/ng-async'
+import { lastValueFrom, of, toArray } from 'rxjs'
+
+describe('AsyncResult combinators', () => {
+    describe('mapAsyncResult', () => {
+        it('should map the entity and keep the status, error and filters', () => {
+            expect(mapAsyncResult(createSuccessAsyncResult(2, 'filter'), (entity) => entity * 2)).toEqual(
+                createSuccessAsyncResult(4, 'filter')
+            )
+            expect(mapAsyncResult(createFailedAsyncResult(new Error('Oops'), [1]), (entity) => entity.length)).toEqual(
+                createFailedAsyncResult(new Error('Oops'), 1)
+            )
+        })
+    })
+
+    describe('combineAsyncResults', () => {
+        const success = createSuccessAsyncResult('success')
+        const pending = createPendingAsyncResult('pending')
+        const initial = createInitialAsyncResult('initial')
+        const failed = createFailedAsyncResult(new Error('FAILED'), 'failed')
+
+        it('should be successful with the tuple of entities when all results are successful', () => {
+            const combined: AsyncResult<[string, number], null> = combineAsyncResults([
+                success,
+                createSuccessAsyncResult(1)
+            ])
+
+            expect(combined).toEqual(createSuccessAsyncResult<[string, number]>(['success', 1]))
+        })
+
+        it('should give failed precedence over pending and initial', () => {
+            expect(combineAsyncResults([success, pending, initial, failed]).status).toBe('failed')
+            expect(combineAsyncResults([failed, pending]).error).toEqual(new Error('FAILED'))
+        })
+
+        it('should give pending precedence over initial', () => {
+            expect(combineAsyncResults([initial, success, pending]).status).toBe('pending')
+        })
+
+        it('should be initial when there is an initial result and none is failed or pending', () => {
+            expect(combineAsyncResults([success, initial]).status).toBe('initial')
+        })
+
+        it('should collect the errors when multiple results failed', () => {
+            const otherFailed = createFailedAsyncResult(new Error('OTHER'), null)
+
+            const error = combineAsyncResults([failed, success, otherFailed]).error as AggregateError
+
+            expect(error).toBeInstanceOf(AggregateError)
+            expect(error.message).toBe('FAILED')
+            expect(error.errors).toEqual([new Error('FAILED'), new Error('OTHER')])
+        })
+    })
+
+    describe('switchMapAsyncResult', () => {
+        it('should switch to the dependent call for a successful result', async () => {
+            const results = await lastValueFrom(
+                of(createSuccessAsyncResult(1)).pipe(
+                    switchMapAsyncResult((id) => of(createSuccessAsyncResult(`entity ${id}`))),
+                    toArray()
+                )
+            )
+
+            expect(results).toEqual([createSuccessAsyncResult('entity 1')])
+        })
+
+        it('should pass on other results without calling the dependent call', async () => {
+            const dependentCall = jasmine.createSpy('dependentCall')
+
+            const results = await lastValueFrom(
+                of(createPendingAsyncResult(1), createFailedAsyncResult(new Error('Oops'), 1)).pipe(
+                    switchMapAsyncResult(dependentCall),
+                    toArray()
+                )
+            )
+
+            expect(dependentCall).not.toHaveBeenCalled()
+            expect(results).toEqual([createPendingAsyncResult(null), createFailedAsyncResult(new Error('Oops'), null)])
+        })
+    })
+
+    describe('unwrapOrThrow', () => {
+        it('should return the entity of a successful result', () => {
+            expect(unwrapOrThrow(createSuccessAsyncResult('entity'))).toBe('entity')
+        })
+
+        it('should throw the error of a failed result', () => {
+            expect(() => unwrapOrThrow(createFailedAsyncResult(new Error('Oops'), null))).toThrowError('Oops')
+        })
+
+        it('should throw for results that are not settled', () => {
+            expect(() => unwrapOrThrow(createPendingAsyncResult(null))).toThrowError(/pending/)
+            expect(() => unwrapOrThrow(createInitialAsyncResult(null))).toThrowError(/initial/)
+        })
+    })
+})
@@ -0,0 +1,99 @@
+import { Observable, of, OperatorFunction, switchMap } from 'rxjs'
+import { AsyncResult, AsyncResultStatus } from './async-result'
+
+/** The entities of a tuple of async results. */
+export type AsyncResultEntities<T extends ReadonlyArray<AsyncResult<unknown, unknown>>> = {
+    [K in keyof T]: T[K] extends AsyncResult<infer TResult, unknown> ? TResult : never
+}
+
+/**
+ * Maps the entity of an async result, keeping its status, error and filters.
+ * @param asyncResult The async result to map.
+ * @param project Maps the entity to a new entity.
+ */
+export const mapAsyncResult = <TResult, TFilter, TMappedResult>(
+    asyncResult: AsyncResult<TResult, TFilter>,
+    project: (entity: TResult) => TMappedResult
+): AsyncResult<TMappedResult, TFilter> => {
+    return { ...asyncResult, entity: project(asyncResult.entity) }
+}
+
+/**
+ * Combines multiple async results into one async result with a tuple of their entities.
+ * The status of the combined result is, in order of precedence:
+ * - "failed" when any of the results failed, with the error of the failed result or an `AggregateError` collecting
+ *   the errors when more than one failed. The message of the `AggregateError` is the message of the first error, so it
+ *   can still be translated and shown as is.
+ * - "pending" when any of the results is pending
+ * - "initial" when any of the results is initial
+ * - "success" when all the results are successful
+ *
+ * Use it to combine observables of async results: `combineLatest([a$, b$]).pipe(map(combineAsyncResults))`.
+ * @param asyncResults The async results to combine.
+ */
+export const combineAsyncResults = <T extends ReadonlyArray<AsyncResult<unknown, unknown>>>(
+    asyncResults: readonly [...T]
+): AsyncResult<AsyncResultEntities<T>, null> => {
+    const errors = asyncResults
+        .filter((asyncResult) => asyncResult.status === 'failed')
+        .map((asyncResult) => asyncResult.error ?? new Error())
+    const hasStatus = (status: AsyncResultStatus): boolean =>
+        asyncResults.some((asyncResult) => asyncResult.status === status)
+
+    const combinedResult: AsyncResult<AsyncResultEntities<T>, null> = {
+        status: errors.length
+            ? 'failed'
+            : hasStatus('pending')
+              ? 'pending'
+              : hasStatus('initial')
+                ? 'initial'
+                : 'success',
+        entity: asyncResults.map((asyncResult) => asyncResult.entity) as AsyncResultEntities<T>,
+        filters: null
+    }
+    if (errors.length) {
+        combinedResult.error = errors.length === 1 ? errors[0] : new AggregateError(errors, errors[0].message)
+    }
+
+    return combinedResult
+}
+
+/**
+ * Operator for dependent calls: switches to the async result of the given call when the source emits a successful
+ * async result. Other async results are passed on with their status and error, and `null` as entity.
+ * @param project Executes the dependent call for the entity of the successful async result.
+ */
+export const switchMapAsyncResult = <TResult, TFilter, TProjectedResult, TProjectedFilter = null>(
+    project: (entity: TResult) => Observable<AsyncResult<TProjectedResult, TProjectedFilter>>
+): OperatorFunction<AsyncResult<TResult, TFilter>, AsyncResult<TProjectedResult | null, TProjectedFilter>> =>
+    switchMap((asyncResult: AsyncResult<TResult, TFilter>) => {
+        if (asyncResult.status === 'success') {
+            return project(asyncResult.entity)
+        }
+
+        const passedOnResult: AsyncResult<TProjectedResult | null, TProjectedFilter> = {
+            status: asyncResult.status,
+            entity: null,
+            filters: null
+        }
+        if (asyncResult.error) {
+            passedOnResult.error = asyncResult.error
+        }
+        return of(passedOnResult)
+    })
+
+/**
+ * Returns the entity of a successful async result.
+ * @param asyncResult The async result to unwrap.
+ * @throws The error of the async result when it failed, or an error when it is not settled yet.
+ */
+export const unwrapOrThrow = <TResult>(asyncResult: AsyncResult<TResult, unknown>): TResult => {
+    switch (asyncResult.status) {
+        case 'success':
+            return asyncResult.entity
+        case 'failed':
+            throw asyncResult.error ?? new Error('The async result failed without error.')
+        default:
+            throw new Error(`The async result can't be unwrapped because its status is ${asyncResult.status}.`)
+    }
+}
@@ -1,4 +1,13 @@
-import { isAsyncResult } from '@ppwcode/ng-async'
+import {
+    createEmptyPagedEntities,
+    createInitialAsyncResult,
+    createPagedEntitiesMock,
+    createPendingAsyncResult,
+    executeAsyncOperation,
+    isAsyncResult,
+    isEmptyEntity
+} from '@ppwcode/ng-async'
+import { BehaviorSubject, EMPTY, throwError } from 'rxjs'
 
 describe('AsyncResult', () => {
     it('should detect invalid async result models', () => {
@@ -16,4 +25,48 @@ describe('AsyncResult', () => {
         expect(isAsyncResult({ status: 'success', entity: {}, filters: null })).toBe(true)
         expect(isAsyncResult({ status: 'failed', error: new Error(), entity: null, filters: null })).toBe(true)
     })
+
+    it('should create initial and pending async results', () => {
+        expect(createInitialAsyncResult(null)).toEqual({ status: 'initial', entity: null, filters: null })
+        expect(createPendingAsyncResult([1], { page: 2 })).toEqual({
+            status: 'pending',
+            entity: [1],
+            filters: { page: 2 }
+        })
+    })
+
+    it('should detect empty entities', () => {
+        expect(isEmptyEntity(null)).toBe(true)
+        expect(isEmptyEntity([])).toBe(true)
+        expect(isEmptyEntity(createEmptyPagedEntities())).toBe(true)
+        expect(isEmptyEntity(new Map())).toBe(true)
+        expect(isEmptyEntity(new Set())).toBe(true)
+
+        expect(isEmptyEntity(undefined)).toBe(false)
+        expect(isEmptyEntity([1])).toBe(false)
+        expect(isEmptyEntity(createPagedEntitiesMock([1]))).toBe(false)
+        expect(isEmptyEntity(new Map([['a', 1]]))).toBe(false)
+        expect(isEmptyEntity({})).toBe(false)
+        expect(isEmptyEntity(0)).toBe(false)
+        expect(isEmptyEntity('')).toBe(false)
+    })
+
+    it('should reset the executing subject when the operation throws or completes without result', async () => {
+        const isExecuting$ = new BehaviorSubject(false)
+        const handlers = { success: jasmine.createSpy('success'), error: jasmine.createSpy('error') }
+
+        await expectAsync(
+            executeAsyncOperation(
+                throwError(() => new Error('boom')),
+                handlers,
+                isExecuting$
+            )
+        ).toBeRejected()
+        expect(isExecuting$.value).toBe(false)
+
+        await expectAsync(executeAsyncOperation(EMPTY, handlers, isExecuting$)).toBeRejected()
+        expect(isExecuting$.value).toBe(false)
+        expect(handlers.success).not.toHaveBeenCalled()
+        expect(handlers.error).not.toHaveBeenCalled()
+    })
 })
@@ -1,4 +1,6 @@
 import { BehaviorSubject, firstValueFrom, Observable } from 'rxjs'
+import { isPagedEntities } from './paged-entities'
+import { PpwProgress } from './progress'
 
 export type AsyncResultStatus = 'pending' | 'failed' | 'success' | 'initial'
 
@@ -7,6 +9,8 @@ export interface AsyncResult<TResult, TFilter = null> {
     error?: Error
     entity: TResult
     filters: TFilter | null
+    /** The progress of the transfer while the result is pending, e.g. of a download or an upload. */
+    progress?: PpwProgress
 }
 
 export const isAsyncResult = <TResult, TFilter = null>(
@@ -21,6 +25,31 @@ export const isAsyncResult = <TResult, TFilter = null>(
     )
 }
 
+/** Predicate that determines whether the entity of a successful async result is empty. */
+export type PpwIsEmptyPredicate = (entity: unknown) => boolean
+
+/**
+ * The default predicate to determine whether the entity of a successful async result is empty.
+ * `null`, empty arrays, paged entities with a total count of 0 and empty maps and sets are empty.
+ * An `undefined` entity is not empty, because it is the entity of a successful result that ignores the response.
+ * @param entity The entity to check.
+ */
+export const isEmptyEntity: PpwIsEmptyPredicate = (entity: unknown): boolean => {
+    if (entity === null) {
+        return true
+    }
+    if (Array.isArray(entity)) {
+        return entity.length === 0
+    }
+    if (isPagedEntities(entity)) {
+        return entity.totalCount === 0
+    }
+    if (entity instanceof Map || entity instanceof Set) {
+        return entity.size === 0
+    }
+    return false
+}
+
 export const createSuccessAsyncResult = <TResult, TFilter = null>(
     entities: TResult,
     filters: TFilter | null = null
@@ -45,6 +74,46 @@ export const createFailedAsyncResult = <TResult, TFilter = null>(
     }
 }
 
+/**
+ * Creates an async result for a request that has not been executed yet.
+ * @param entity The entity to show before the request is executed, usually `null` or an empty value.
+ * @param filters The filters of the request, if any.
+ */
+export const createInitialAsyncResult = <TResult, TFilter = null>(
+    entity: TResult,
+    filters: TFilter | null = null
+): AsyncResult<TResult, TFilter> => {
+    return {
+        status: 'initial',
+        entity,
+        filters
+    }
+}
+
+/**
+ * Creates an async result for a request that is executing.
+ * @param entity The entity of the previous result, so it can still be shown while the request is executing.
+ * @param filters The filters of the executing request, if any.
+ * @param progress The progress of the transfer, if it is reported.
+ */
+export const createPendingAsyncResult = <TResult, TFilter = null>(
+    entity: TResult,
+    filters: TFilter | null = null,
+    progress?: PpwProgress
+): AsyncResult<TResult, TFilter> => {
+    return {
+        status: 'pending',
+        entity,
+        filters,
+        ...(progress ? { progress } : {})
+    }
+}
+
+/**
+ * Executes the given operation and calls the matching handler with its result. The executing subject is reset when the
+ * operation has finished, also when it throws or completes without result.
+ * Use `createAsyncOperationRunner` to prevent duplicate executions, to cancel executions or to bind a pending signal.
+ */
 export const executeAsyncOperation = async <TAsyncResult, TAsyncFilter, TSubject>(
     operation$: Observable<AsyncResult<TAsyncResult, TAsyncFilter>>,
     handlers: {
@@ -56,8 +125,12 @@ export const executeAsyncOperation = async <TAsyncResult, TAsyncFilter, TSubject
     executingFinishedValue?: TSubject
 ): Promise<AsyncResult<TAsyncResult, TAsyncFilter>> => {
     isExecuting$.next(executingStartedValue ?? (true as TSubject))
-    const result = await firstValueFrom(operation$)
-    isExecuting$.next(executingFinishedValue ?? (false as TSubject))
+    let result: AsyncResult<TAsyncResult, TAsyncFilter>
+    try {
+        result = await firstValueFrom(operation$)
+    } finally {
+        isExecuting$.next(executingFinishedValue ?? (false as TSubject))
+    }
 
     if (result.status === 'success') {
         handlers.success(result)
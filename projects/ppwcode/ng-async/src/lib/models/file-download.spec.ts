@@ -1,4 +1,5 @@
-import { getFileNameFromContentDisposition } from './file-download'
+import { HttpHeaders, HttpResponse } from '@angular/common/http'
+import { getFileNameFromContentDisposition, httpResponseToFileDownload, parseContentDisposition } from './file-download'
 
 describe('getFileName', () => {
     it('should get the filename from a content-disposition string', () => {
@@ -8,4 +9,74 @@ describe('getFileName', () => {
         const expected = 'Incentive EUR - Devloo BELGIUM NV - 20231212_1524.xlsx'
         expect(getFileNameFromContentDisposition(contentDisposition)).toEqual(expected)
     })
+
+    it('should prefer the percent-encoded filename* parameter', () => {
+        expect(
+            getFileNameFromContentDisposition(
+                // eslint-disable-next-line no-secrets/no-secrets
+                `attachment; filename="Ecole.pdf"; filename*=UTF-8''%C3%89cole%20fran%C3%A7aise.pdf`
+            )
+        ).toEqual('École française.pdf')
+        expect(getFileNameFromContentDisposition(`attachment; filename*=iso-8859-1'nl'Caf%E9.txt`)).toEqual('Café.txt')
+    })
+
+    it('should fall back to the filename parameter when filename* can not be decoded', () => {
+        expect(getFileNameFromContentDisposition(`attachment; filename=plain.txt; filename*=UTF-8''%FF.txt`)).toEqual(
+            'plain.txt'
+        )
+    })
+
+    it('should handle quoted values with separators and escaped quotes', () => {
+        expect(getFileNameFromContentDisposition('attachment; filename="a; b \\"c\\".txt"')).toEqual('a; b c.txt')
+    })
+
+    it('should remove directories and invalid characters from the file name', () => {
+        expect(getFileNameFromContentDisposition('attachment; filename="../../etc/passwd"')).toEqual('passwd')
+        expect(getFileNameFromContentDisposition('attachment; filename="..\\\\windows\\\\win.ini"')).toEqual('win.ini')
+        expect(getFileNameFromContentDisposition(`attachment; filename*=UTF-8''..%2F..%2F`)).toBeUndefined()
+    })
+
+    it('should return undefined without filename', () => {
+        expect(getFileNameFromContentDisposition(null)).toBeUndefined()
+        expect(getFileNameFromContentDisposition('attachment')).toBeUndefined()
+    })
+})
+
+describe('parseContentDisposition', () => {
+    it('should parse the disposition type', () => {
+        expect(parseContentDisposition('inline; filename=report.pdf')).toEqual({
+            type: 'inline',
+            fileName: 'report.pdf'
+        })
+        expect(parseContentDisposition('ATTACHMENT')).toEqual({ type: 'attachment', fileName: undefined })
+        expect(parseContentDisposition('filename=report.pdf')).toEqual({ type: 'attachment', fileName: 'report.pdf' })
+        expect(parseContentDisposition('')).toBeNull()
+    })
+})
+
+describe('httpResponseToFileDownload', () => {
+    it('should read the metadata of the file from the response', () => {
+        const blob = new Blob(['content'], { type: 'text/plain' })
+        const response = new HttpResponse({
+            body: blob,
+            headers: new HttpHeaders({
+                'Content-Disposition': 'inline; filename=notes.txt',
+                'Content-Type': 'text/plain; charset=utf-8'
+            })
+        })
+
+        expect(httpResponseToFileDownload(response)).toEqual({
+            blob,
+            fileName: 'notes.txt',
+            contentType: 'text/plain; charset=utf-8',
+            size: 7,
+            disposition: 'inline'
+        })
+    })
+
+    it('should use the type of the blob without content type header', () => {
+        const blob = new Blob(['content'], { type: 'text/csv' })
+
+        expect(httpResponseToFileDownload(new HttpResponse({ body: blob })).contentType).toEqual('text/csv')
+    })
 })
@@ -1,26 +1,122 @@
 import { HttpResponse } from '@angular/common/http'
 import { notUndefined } from '@ppwcode/js-ts-oddsandends/lib/conditional-assert'
 
+/** Whether a file should be shown in the browser (`inline`) or saved (`attachment`). */
+export type ContentDispositionType = 'inline' | 'attachment'
+
 export interface FileDownload {
     blob: Blob
     fileName?: string
+    /** The media type of the file, from the `Content-Type` header or the blob. */
+    contentType?: string
+    /** The size of the file in bytes. */
+    size?: number
+    /** The disposition type of the `Content-Disposition` header. */
+    disposition?: ContentDispositionType
+}
+
+/** The parsed value of a `Content-Disposition` header, see RFC 6266. */
+export interface ContentDisposition {
+    type: ContentDispositionType
+    fileName?: string
 }
 
 export const httpResponseToFileDownload = (response: HttpResponse<Blob>): FileDownload => {
-    const contentDisposition = response.headers.get('Content-Disposition')
-    const fileName = getFileNameFromContentDisposition(contentDisposition)
+    const blob = notUndefined(response.body || undefined)
+    const contentDisposition = parseContentDisposition(response.headers.get('Content-Disposition'))
     return {
-        blob: notUndefined(response.body || undefined),
-        fileName
+        blob,
+        fileName: contentDisposition?.fileName,
+        contentType: response.headers.get('Content-Type') ?? (blob.type || undefined),
+        size: blob.size,
+        disposition: contentDisposition?.type
     }
 }
 
 export const getFileNameFromContentDisposition = (contentDisposition?: string | null): string | undefined => {
-    if (!(contentDisposition && contentDisposition.length && contentDisposition.indexOf('filename=') > -1)) {
+    return parseContentDisposition(contentDisposition)?.fileName
+}
+
+/**
+ * Parses a `Content-Disposition` header as described in RFC 6266.
+ * The extended `filename*` parameter (RFC 8187, e.g. `filename*=UTF-8''na%C3%AFve.txt`) takes precedence over the
+ * `filename` parameter. Directory parts and characters that are not allowed in file names are removed from the file name,
+ * so it can't be used for path traversal.
+ * Headers without disposition type (`filename=file.txt`) are tolerated and treated as attachment.
+ * @param contentDisposition The value of the `Content-Disposition` header.
+ * @returns The parsed header or `null` when there is no header.
+ */
+export const parseContentDisposition = (contentDisposition?: string | null): ContentDisposition | null => {
+    const header = contentDisposition?.trim()
+    if (!header?.length) {
+        return null
+    }
+
+    const firstPart = header.split(';')[0].trim()
+    const hasType = firstPart.indexOf('=') === -1
+    const type: ContentDispositionType = hasType && firstPart.toLowerCase() === 'inline' ? 'inline' : 'attachment'
+    const parameters = parseParameters(hasType ? header.substring(firstPart.length) : header)
+
+    const extendedFileName = parameters['filename*'] ? decodeExtendedValue(parameters['filename*']) : undefined
+    return {
+        type,
+        fileName: sanitizeFileName(extendedFileName ?? parameters['filename'])
+    }
+}
+
+const parseParameters = (parameters: string): Record<string, string> => {
+    const parsedParameters: Record<string, string> = {}
+    const parameterRegExp = /([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g
+
+    let match: RegExpExecArray | null
+    while ((match = parameterRegExp.exec(parameters)) !== null) {
+        const name = match[1].toLowerCase()
+        const value = match[2].trim()
+        // The first occurrence of a parameter wins, as recommended by RFC 6266.
+        if (!(name in parsedParameters)) {
+            parsedParameters[name] =
+                value.startsWith('"') && value.endsWith('"') && value.length > 1
+                    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+                    : value
+        }
+    }
+
+    return parsedParameters
+}
+
+/** Decodes an RFC 8187 extended value: `charset'language'percent-encoded-value`. */
+const decodeExtendedValue = (extendedValue: string): string | undefined => {
+    const match = /^([^']*)'[^']*'(.*)$/.exec(extendedValue)
+    if (!match) {
+        return undefined
+    }
+
+    const charset = match[1] || 'utf-8'
+    const encodedValue = match[2]
+    const bytes: Array<number> = []
+    for (let index = 0; index < encodedValue.length; index++) {
+        if (encodedValue[index] === '%' && /^[0-9a-f]{2}$/i.test(encodedValue.substring(index + 1, index + 3))) {
+            bytes.push(parseInt(encodedValue.substring(index + 1, index + 3), 16))
+            index += 2
+        } else {
+            bytes.push(encodedValue.charCodeAt(index))
+        }
+    }
+
+    try {
+        return new TextDecoder(charset, { fatal: true }).decode(new Uint8Array(bytes))
+    } catch {
+        // Unknown charset or invalid encoding, the plain filename parameter is used instead.
         return undefined
     }
-    const filenameStart = contentDisposition.split('filename=')[1]
-    const filename =
-        filenameStart?.length && filenameStart.indexOf(';') > -1 ? filenameStart.split(';')[0] : filenameStart
-    return filename?.length ? filename.trim().replace(/['"]/g, '') : undefined
+}
+
+const sanitizeFileName = (fileName?: string): string | undefined => {
+    const baseName = fileName
+        ?.split(/[/\\]/)
+        .pop()
+        // eslint-disable-next-line no-control-regex
+        ?.replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '')
+        .trim()
+    return baseName && baseName !== '.' && baseName !== '..' ? baseName : undefined
 }
@@ -0,0 +1,59 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { createPpwHttpError, isPpwHttpError, PpwHttpError } from './http-error'
+
+describe('PpwHttpError', () => {
+    it('should read the structured information from the response body', () => {
+        const httpError = new HttpErrorResponse({
+            status: 400,
+            statusText: 'Bad Request',
+            url: '/api/persons',
+            error: {
+                type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+                title: 'One or more validation errors occurred.',
+                detail: 'See the errors property for details.',
+                instance: '/api/persons',
+                errors: { firstName: ['REQUIRED'], lastName: 'TOO_LONG' },
+                messages: [
+                    {
+                        code: 'PERSON_INVALID',
+                        infoLevel: 'ERROR',
+                        parameters: ['42'],
+                        text: 'Invalid',
+                        translated: false
+                    }
+                ]
+            }
+        })
+
+        const error = createPpwHttpError(httpError, 'ERROR_MESSAGE')
+
+        expect(error).toBeInstanceOf(Error)
+        expect(isPpwHttpError(error)).toBe(true)
+        expect(error.message).toEqual('ERROR_MESSAGE')
+        expect(error.status).toEqual(400)
+        expect(error.statusText).toEqual('Bad Request')
+        expect(error.url).toEqual('/api/persons')
+        expect(error.type).toEqual('https://tools.ietf.org/html/rfc7231#section-6.5.1')
+        expect(error.title).toEqual('One or more validation errors occurred.')
+        expect(error.detail).toEqual('See the errors property for details.')
+        expect(error.instance).toEqual('/api/persons')
+        expect(error.fieldErrors).toEqual({ firstName: ['REQUIRED'], lastName: ['TOO_LONG'] })
+        expect(error.codes).toEqual(['PERSON_INVALID'])
+        expect(error.hasCode('PERSON_INVALID')).toBe(true)
+        expect(error.messages[0].parameters).toEqual(['42'])
+    })
+
+    it('should support responses without a structured body', () => {
+        const error = createPpwHttpError(new HttpErrorResponse({ status: 409, error: 'Conflict' }), 'Conflict')
+
+        expect(error.status).toEqual(409)
+        expect(error.messages).toEqual([])
+        expect(error.problemDetails).toEqual({})
+        expect(error.fieldErrors).toEqual({})
+    })
+
+    it('should not consider plain errors as http errors', () => {
+        expect(isPpwHttpError(new Error())).toBe(false)
+        expect(isPpwHttpError(new PpwHttpError('', 500))).toBe(true)
+    })
+})
@@ -0,0 +1,129 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { PpwErrorMessage } from './error-message'
+
+/**
+ * The RFC 7807 "problem details" members that can be returned by a back-end.
+ * See https://datatracker.ietf.org/doc/html/rfc7807#section-3.1
+ */
+export interface PpwProblemDetails {
+    type?: string
+    title?: string
+    detail?: string
+    instance?: string
+}
+
+/** Validation errors per field, as returned by ASP.NET-style back-ends: `errors: { field: [messages] }`. */
+export type PpwFieldErrors = Record<string, Array<string>>
+
+/**
+ * Error carrying the structured information of a failed HTTP call.
+ * The message of the error is the human-readable (or translatable) summary of the failure, the other properties
+ * allow screens to react to a specific status code, back-end error code or field without parsing the message.
+ */
+export class PpwHttpError extends Error {
+    public override readonly name = 'PpwHttpError'
+
+    constructor(
+        message: string,
+        /** The HTTP status code of the response. */
+        public readonly status: number,
+        /** The status text of the response. */
+        public readonly statusText: string = '',
+        /** The messages in the `messages` array of the response body. */
+        public readonly messages: Array<PpwErrorMessage> = [],
+        /** The RFC 7807 problem details members of the response body. */
+        public readonly problemDetails: PpwProblemDetails = {},
+        /** The validation errors per field in the `errors` object of the response body. */
+        public readonly fieldErrors: PpwFieldErrors = {},
+        /** The url of the failed request. */
+        public readonly url: string | null = null
+    ) {
+        super(message)
+    }
+
+    public get type(): string | undefined {
+        return this.problemDetails.type
+    }
+
+    public get title(): string | undefined {
+        return this.problemDetails.title
+    }
+
+    public get detail(): string | undefined {
+        return this.problemDetails.detail
+    }
+
+    public get instance(): string | undefined {
+        return this.problemDetails.instance
+    }
+
+    /** Gets the codes of all the messages in the response, e.g. to check for a specific back-end error. */
+    public get codes(): Array<string> {
+        return this.messages.map((message) => message.code)
+    }
+
+    /** Gets whether the response contained a message with the given code. */
+    public hasCode(code: string): boolean {
+        return this.codes.indexOf(code) > -1
+    }
+}
+
+export const isPpwHttpError = (error: unknown): error is PpwHttpError => error instanceof PpwHttpError
+
+/**
+ * Creates a PpwHttpError for the given response. The structured information (messages, problem details and field
+ * errors) is read from the response body, the message of the error should be determined by the caller.
+ * @param httpError The failed HTTP response.
+ * @param message The message of the created error.
+ */
+export const createPpwHttpError = (httpError: HttpErrorResponse, message: string): PpwHttpError => {
+    const body: unknown = httpError.error
+    const isObjectBody = typeof body === 'object' && body !== null && !(body instanceof Blob)
+
+    return new PpwHttpError(
+        message,
+        httpError.status,
+        httpError.statusText ?? '',
+        isObjectBody ? extractErrorMessages(body) : [],
+        isObjectBody ? extractProblemDetails(body) : {},
+        isObjectBody ? extractFieldErrors(body) : {},
+        httpError.url
+    )
+}
+
+const extractErrorMessages = (body: object): Array<PpwErrorMessage> => {
+    const messages = (body as { messages?: unknown }).messages
+    return Array.isArray(messages) ? messages.filter((message) => typeof message === 'object' && message !== null) : []
+}
+
+const extractProblemDetails = (body: object): PpwProblemDetails => {
+    const problemDetails: PpwProblemDetails = {}
+    const problemDetailsKeys: Array<keyof PpwProblemDetails> = ['type', 'title', 'detail', 'instance']
+
+    problemDetailsKeys.forEach((key) => {
+        const value = (body as Record<string, unknown>)[key]
+        if (typeof value === 'string') {
+            problemDetails[key] = value
+        }
+    })
+
+    return problemDetails
+}
+
+const extractFieldErrors = (body: object): PpwFieldErrors => {
+    const errors = (body as { errors?: unknown }).errors
+    if (typeof errors !== 'object' || errors === null || Array.isArray(errors)) {
+        return {}
+    }
+
+    const fieldErrors: PpwFieldErrors = {}
+    Object.entries(errors).forEach(([field, fieldMessages]) => {
+        // Back-ends usually return an array of messages per field, but a single message is tolerated as well.
+        const normalizedMessages = Array.isArray(fieldMessages) ? fieldMessages : [fieldMessages]
+        fieldErrors[field] = normalizedMessages
+            .filter((fieldMessage) => fieldMessage !== null && fieldMessage !== undefined)
+            .map(String)
+    })
+
+    return fieldErrors
+}
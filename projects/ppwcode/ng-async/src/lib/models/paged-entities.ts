@@ -18,6 +18,16 @@ export interface PagedEntities<T> {
     items: Array<T>
 }
 
+export const isPagedEntities = <T>(possiblePagedEntities: unknown): possiblePagedEntities is PagedEntities<T> => {
+    return (
+        typeof possiblePagedEntities === 'object' &&
+        possiblePagedEntities !== null &&
+        'totalCount' in possiblePagedEntities &&
+        'items' in possiblePagedEntities &&
+        Array.isArray(possiblePagedEntities.items)
+    )
+}
+
 export const pagedEntitiesFromDto = <TDto, TModel>(
     pagedEntitiesDto: PagedEntitiesDto<TDto>,
     entityMapper: (dto: TDto) => TModel
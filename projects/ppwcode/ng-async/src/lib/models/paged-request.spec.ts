@@ -0,0 +1,83 @@
+import {
+    createPagedRequest,
+    isPagedRequest,
+    parsePagedRequest,
+    parseSortDescriptors,
+    serializePagedRequest,
+    serializePagedRequestQueryParams,
+    withFilters,
+    withPage,
+    withSort
+} from '@ppwcode/ng-async'
+
+describe('PagedRequest', () => {
+    const request = {
+        pageIndex: 2,
+        pageSize: 10,
+        sort: [
+            { property: 'name', direction: 'asc' as const },
+            { property: 'createdAt', direction: 'desc' as const }
+        ],
+        filters: { search: 'ppw', status: ['open', 'closed'] }
+    }
+
+    it('should create and detect paged requests', () => {
+        expect(createPagedRequest(null)).toEqual({ pageIndex: 1, pageSize: 20, sort: [], filters: null })
+        expect(isPagedRequest(request)).toBe(true)
+        expect(isPagedRequest({ pageIndex: 1, pageSize: 20 })).toBe(false)
+        expect(isPagedRequest(null)).toBe(false)
+    })
+
+    it('should go back to the first page when the sorting or filters change', () => {
+        expect(withPage(request, 3)).toEqual({ ...request, pageIndex: 3 })
+        expect(withPage(request, 1, 50)).toEqual({ ...request, pageIndex: 1, pageSize: 50 })
+        expect(withSort(request, [])).toEqual({ ...request, pageIndex: 1, sort: [] })
+        expect(withFilters(request, { search: '', status: [] })).toEqual({
+            ...request,
+            pageIndex: 1,
+            filters: { search: '', status: [] }
+        })
+    })
+
+    it('should serialize to http params', () => {
+        expect(serializePagedRequest(request).toString()).toBe(
+            'search=ppw&status=open&status=closed&pageIndex=2&pageSize=10&sort=name:asc&sort=createdAt:desc'
+        )
+        expect(
+            serializePagedRequestQueryParams(createPagedRequest(null), { pageIndexParam: 'page', sortParam: 'orderBy' })
+        ).toEqual({ page: '1', pageSize: '20' })
+    })
+
+    it('should parse what was serialized', () => {
+        expect(parsePagedRequest(serializePagedRequest(request), { types: { status: 'string[]' } })).toEqual(request)
+    })
+
+    it('should fall back to the first page for invalid page parameters', () => {
+        expect(parsePagedRequest({ pageIndex: '-1', pageSize: 'x' }, {}, 50)).toEqual({
+            pageIndex: 1,
+            pageSize: 50,
+            sort: [],
+            filters: {}
+        })
+    })
+
+    it('should ignore filter parameters that would modify the prototype of the objects', () => {
+        const pagedRequest = parsePagedRequest({
+            pageIndex: '2',
+            '__proto__.polluted': '1',
+            'constructor.prototype.polluted': '1',
+            search: 'ppw'
+        })
+
+        expect(pagedRequest.filters).toEqual({ search: 'ppw' })
+        expect(({} as Record<string, unknown>)['polluted']).toBeUndefined()
+    })
+
+    it('should parse sort descriptors', () => {
+        expect(parseSortDescriptors(['name', 'address:city:desc', 'age:up', ''])).toEqual([
+            { property: 'name', direction: 'asc' },
+            { property: 'address:city', direction: 'desc' },
+            { property: 'age', direction: 'asc' }
+        ])
+    })
+})
@@ -0,0 +1,165 @@
+import { HttpParams } from '@angular/common/http'
+import {
+    parseQueryParams,
+    PpwQueryParamParserOptions,
+    PpwRequestSerializerOptions,
+    serializeQueryParams
+} from '../api-calls/request-serializer'
+import { PagedAsyncResult } from './paged-async-result'
+
+export type PpwSortDirection = 'asc' | 'desc'
+
+/** Sorts on a single property. Multiple descriptors sort on multiple columns, in order of priority. */
+export interface PpwSortDescriptor {
+    property: string
+    direction: PpwSortDirection
+}
+
+/** The request for a page of entities: the page, the sorting and the filters. */
+export interface PagedRequest<TFilters = null> {
+    /** The index of the page, starting at 1 like the pageIndex of PagedEntities. */
+    pageIndex: number
+    pageSize: number
+    sort: Array<PpwSortDescriptor>
+    filters: TFilters
+}
+
+/** A paged async result of which the filters are the paged request that was executed. */
+export type PagedRequestAsyncResult<TEntity, TFilters = null> = PagedAsyncResult<TEntity, PagedRequest<TFilters>>
+
+export interface PpwPagedRequestSerializerOptions extends PpwRequestSerializerOptions {
+    /** The name of the page index parameter. Defaults to `pageIndex`. */
+    pageIndexParam?: string
+    /** The name of the page size parameter. Defaults to `pageSize`. */
+    pageSizeParam?: string
+    /** The name of the sort parameter. Defaults to `sort`. */
+    sortParam?: string
+}
+
+/**
+ * Creates a paged request for the first page.
+ * @param filters The filters of the request.
+ * @param pageSize The size of the pages. Defaults to 20, like `createEmptyPagedEntities`.
+ * @param sort The sorting of the request.
+ */
+export const createPagedRequest = <TFilters = null>(
+    filters: TFilters,
+    pageSize: number = 20,
+    sort: Array<PpwSortDescriptor> = []
+): PagedRequest<TFilters> => ({ pageIndex: 1, pageSize, sort, filters })
+
+export const isPagedRequest = <TFilters>(
+    possiblePagedRequest: unknown
+): possiblePagedRequest is PagedRequest<TFilters> =>
+    typeof possiblePagedRequest === 'object' &&
+    possiblePagedRequest !== null &&
+    'pageIndex' in possiblePagedRequest &&
+    'pageSize' in possiblePagedRequest &&
+    'sort' in possiblePagedRequest &&
+    Array.isArray(possiblePagedRequest.sort) &&
+    'filters' in possiblePagedRequest
+
+/** Gets a copy of the paged request for the given page. The page size is kept when it is not given. */
+export const withPage = <TFilters>(
+    request: PagedRequest<TFilters>,
+    pageIndex: number,
+    pageSize: number = request.pageSize
+): PagedRequest<TFilters> => ({ ...request, pageIndex, pageSize })
+
+/** Gets a copy of the paged request with the given sorting, for the first page. */
+export const withSort = <TFilters>(
+    request: PagedRequest<TFilters>,
+    sort: Array<PpwSortDescriptor>
+): PagedRequest<TFilters> => ({ ...request, pageIndex: 1, sort })
+
+/** Gets a copy of the paged request with the given filters, for the first page. */
+export const withFilters = <TFilters>(request: PagedRequest<TFilters>, filters: TFilters): PagedRequest<TFilters> => ({
+    ...request,
+    pageIndex: 1,
+    filters
+})
+
+/** Serializes sort descriptors as `property:direction`, e.g. `['name:asc', 'createdAt:desc']`. */
+export const serializeSortDescriptors = (sort: Array<PpwSortDescriptor>): Array<string> =>
+    sort.map((descriptor) => `${descriptor.property}:${descriptor.direction}`)
+
+/** Parses sort descriptors serialized as `property:direction`. A missing or unknown direction is ascending. */
+export const parseSortDescriptors = (sort: Array<string>): Array<PpwSortDescriptor> =>
+    sort
+        .filter((value) => value.length > 0)
+        .map((value) => {
+            const separatorIndex = value.lastIndexOf(':')
+            const direction = separatorIndex > -1 ? value.substring(separatorIndex + 1) : ''
+            return {
+                property: separatorIndex > -1 ? value.substring(0, separatorIndex) : value,
+                direction: direction === 'desc' ? 'desc' : 'asc'
+            }
+        })
+
+/**
+ * Serializes a paged request to query parameters. The filters are serialized next to the page index, page size and
+ * sort parameters, see `serializeQueryParams` for their formats.
+ * @param request The paged request.
+ * @param options The names of the parameters and the formats of the filters.
+ */
+export const serializePagedRequestQueryParams = (
+    request: PagedRequest<Record<string, unknown> | null>,
+    options: PpwPagedRequestSerializerOptions = {}
+): Record<string, string | Array<string>> => {
+    const { pageIndexParam = 'pageIndex', pageSizeParam = 'pageSize', sortParam = 'sort' } = options
+    return serializeQueryParams(
+        {
+            ...(request.filters ?? {}),
+            [pageIndexParam]: request.pageIndex,
+            [pageSizeParam]: request.pageSize,
+            [sortParam]: serializeSortDescriptors(request.sort)
+        },
+        options
+    )
+}
+
+/**
+ * Serializes a paged request to the parameters of an HTTP request.
+ *
+ * `this.httpClient.get(url, { params: serializePagedRequest(request) })`
+ * @param request The paged request.
+ * @param options The names of the parameters and the formats of the filters.
+ */
+export const serializePagedRequest = (
+    request: PagedRequest<Record<string, unknown> | null>,
+    options: PpwPagedRequestSerializerOptions = {}
+): HttpParams => new HttpParams({ fromObject: serializePagedRequestQueryParams(request, options) })
+
+/**
+ * Parses query parameters that were serialized with `serializePagedRequestQueryParams` back to a paged request.
+ * Missing or invalid page parameters fall back to the first page with the given default page size.
+ * @param params The query parameters, e.g. the `queryParams` of an activated route snapshot, or HTTP parameters.
+ * @param options The names of the parameters, the array format and the types of the filters.
+ * @param defaultPageSize The page size when the parameters don't specify one.
+ */
+export const parsePagedRequest = <TFilters extends Record<string, unknown> = Record<string, unknown>>(
+    params: Record<string, string | Array<string> | null | undefined> | HttpParams,
+    options: PpwQueryParamParserOptions &
+        Pick<PpwPagedRequestSerializerOptions, 'pageIndexParam' | 'pageSizeParam' | 'sortParam'> = {},
+    defaultPageSize: number = 20
+): PagedRequest<TFilters> => {
+    const { pageIndexParam = 'pageIndex', pageSizeParam = 'pageSize', sortParam = 'sort' } = options
+    const {
+        [pageIndexParam]: pageIndex,
+        [pageSizeParam]: pageSize,
+        [sortParam]: sort,
+        ...filters
+    } = parseQueryParams(params, {
+        ...options,
+        types: { ...options.types, [pageIndexParam]: 'number', [pageSizeParam]: 'number', [sortParam]: 'string[]' }
+    })
+
+    return {
+        pageIndex: isPositiveInteger(pageIndex) ? pageIndex : 1,
+        pageSize: isPositiveInteger(pageSize) ? pageSize : defaultPageSize,
+        sort: parseSortDescriptors((sort as Array<string> | undefined) ?? []),
+        filters: filters as TFilters
+    }
+}
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0
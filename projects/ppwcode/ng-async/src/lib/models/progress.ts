@@ -0,0 +1,23 @@
+/** The progress of a transfer, e.g. of a download or an upload. */
+export interface PpwProgress {
+    /** The number of bytes that have been transferred. */
+    loaded: number
+    /** The total number of bytes to transfer, or `null` when the total size is not known. */
+    total: number | null
+    /** The transferred percentage (0-100), or `null` when the total size is not known. */
+    percentage: number | null
+}
+
+/**
+ * Creates the progress of a transfer.
+ * @param loaded The number of bytes that have been transferred.
+ * @param total The total number of bytes to transfer, if known.
+ */
+export const createProgress = (loaded: number, total?: number | null): PpwProgress => {
+    const knownTotal = total !== undefined && total !== null && total > 0 ? total : null
+    return {
+        loaded,
+        total: knownTotal,
+        percentage: knownTotal === null ? null : Math.min(100, Math.round((loaded / knownTotal) * 100))
+    }
+}
@@ -0,0 +1,11 @@
+import { TrackByFunction } from '@angular/core'
+
+/** Identifies items: the name of their key property, or a trackBy function like the one passed to `<ppw-table>`. */
+export type PpwTrackBy<T> = keyof T | TrackByFunction<T>
+
+/**
+ * Converts the given key property or trackBy function to a trackBy function.
+ * @param trackBy The name of the key property or the trackBy function.
+ */
+export const toTrackByFunction = <T>(trackBy: PpwTrackBy<T>): TrackByFunction<T> =>
+    typeof trackBy === 'function' ? trackBy : (_index: number, item: T) => item[trackBy]
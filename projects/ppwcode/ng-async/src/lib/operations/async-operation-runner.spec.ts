@@ -0,0 +1,178 @@
+import { createEnvironmentInjector, EnvironmentInjector, runInInjectionContext } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import {
+    AsyncOperationConcurrency,
+    AsyncResult,
+    createAsyncOperationRunner,
+    createFailedAsyncResult,
+    createPendingAsyncResult,
+    createSuccessAsyncResult
+} from '@ppwcode/ng-async'
+import { EMPTY, Observable, Subject, throwError, TimeoutError } from 'rxjs'
+
+describe('createAsyncOperationRunner', () => {
+    let responses: Record<string, Subject<AsyncResult<string>>>
+    let abortSignals: Record<string, AbortSignal>
+    let operation: jasmine.Spy<(input: string, abortSignal: AbortSignal) => Observable<AsyncResult<string>>>
+
+    const createRunner = (concurrency: AsyncOperationConcurrency) =>
+        createAsyncOperationRunner(operation, { concurrency })
+    const respond = (input: string) => responses[input].next(createSuccessAsyncResult(input.toUpperCase()))
+
+    beforeEach(() => {
+        responses = {}
+        abortSignals = {}
+        operation = jasmine.createSpy('operation').and.callFake((input: string, abortSignal: AbortSignal) => {
+            responses[input] = new Subject()
+            abortSignals[input] = abortSignal
+            return responses[input]
+        })
+    })
+
+    it('should be pending while executing and resolve with the result', async () => {
+        const success = jasmine.createSpy('success')
+        const runner = createAsyncOperationRunner(operation, { success })
+
+        const result = runner.execute('a')
+        expect(runner.pending()).toBe(true)
+
+        responses['a'].next(createPendingAsyncResult(''))
+        expect(runner.pending()).toBe(true)
+
+        respond('a')
+        expect(await result).toEqual(createSuccessAsyncResult('A'))
+        expect(runner.pending()).toBe(false)
+        expect(success).toHaveBeenCalledOnceWith(createSuccessAsyncResult('A'))
+    })
+
+    it('should call the error handler with a failed result', async () => {
+        const error = jasmine.createSpy('error')
+        const runner = createAsyncOperationRunner(operation, { error })
+
+        const result = runner.execute('a')
+        responses['a'].next(createFailedAsyncResult(new Error('boom'), ''))
+
+        expect((await result)?.status).toBe('failed')
+        expect(error).toHaveBeenCalledTimes(1)
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should reject with the error thrown by a handler and reset the pending state', async () => {
+        const runner = createAsyncOperationRunner(operation, {
+            success: () => {
+                throw new Error('handler failed')
+            }
+        })
+
+        const result = runner.execute('a')
+        respond('a')
+
+        await expectAsync(result).toBeRejectedWithError('handler failed')
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should reset the pending state when the operation throws or completes without result', async () => {
+        const runner = createAsyncOperationRunner((input: boolean) =>
+            input ? throwError(() => new Error('boom')) : EMPTY
+        )
+
+        await expectAsync(runner.execute(true)).toBeRejectedWithError('boom')
+        expect(runner.pending()).toBe(false)
+
+        expect(await runner.execute(false)).toBeNull()
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should ignore executions while running in exhaust mode', async () => {
+        const runner = createRunner('exhaust')
+
+        const first = runner.execute('a')
+        expect(await runner.execute('b')).toBeNull()
+        expect(operation).toHaveBeenCalledTimes(1)
+
+        respond('a')
+        expect(await first).toEqual(createSuccessAsyncResult('A'))
+    })
+
+    it('should cancel the running execution in switch mode', async () => {
+        const runner = createRunner('switch')
+
+        const first = runner.execute('a')
+        const second = runner.execute('b')
+
+        expect(abortSignals['a'].aborted).toBe(true)
+        expect(responses['a'].observed).toBe(false)
+        expect(await first).toBeNull()
+        expect(runner.pending()).toBe(true)
+
+        respond('b')
+        expect(await second).toEqual(createSuccessAsyncResult('B'))
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should start the next execution when the running one finishes in queue mode', async () => {
+        const runner = createRunner('queue')
+
+        const first = runner.execute('a')
+        const second = runner.execute('b')
+        expect(operation).toHaveBeenCalledTimes(1)
+
+        respond('a')
+        expect(await first).toEqual(createSuccessAsyncResult('A'))
+        expect(operation).toHaveBeenCalledTimes(2)
+        expect(runner.pending()).toBe(true)
+
+        respond('b')
+        expect(await second).toEqual(createSuccessAsyncResult('B'))
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should run executions in parallel in merge mode', async () => {
+        const runner = createRunner('merge')
+
+        const first = runner.execute('a')
+        const second = runner.execute('b')
+        expect(operation).toHaveBeenCalledTimes(2)
+
+        respond('b')
+        expect(await second).toEqual(createSuccessAsyncResult('B'))
+        expect(runner.pending()).toBe(true)
+
+        respond('a')
+        expect(await first).toEqual(createSuccessAsyncResult('A'))
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should cancel the running and queued executions', async () => {
+        const runner = createRunner('queue')
+
+        const first = runner.execute('a')
+        const second = runner.execute('b')
+        runner.cancel()
+
+        expect(abortSignals['a'].aborted).toBe(true)
+        expect(await first).toBeNull()
+        expect(await second).toBeNull()
+        expect(operation).toHaveBeenCalledTimes(1)
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should fail with a TimeoutError and abort the execution when the timeout is exceeded', async () => {
+        const runner = createAsyncOperationRunner(operation, { timeout: 10 })
+
+        await expectAsync(runner.execute('a')).toBeRejectedWithError(TimeoutError)
+        expect(abortSignals['a'].aborted).toBe(true)
+        expect(runner.pending()).toBe(false)
+    })
+
+    it('should cancel the executions when the injection context is destroyed', async () => {
+        const injector = createEnvironmentInjector([], TestBed.inject(EnvironmentInjector))
+        const runner = runInInjectionContext(injector, () => createRunner('exhaust'))
+
+        const result = runner.execute('a')
+        injector.destroy()
+
+        expect(await result).toBeNull()
+        expect(abortSignals['a'].aborted).toBe(true)
+    })
+})
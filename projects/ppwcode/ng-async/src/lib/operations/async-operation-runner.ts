@@ -0,0 +1,170 @@
+import { computed, DestroyRef, inject, Signal, signal } from '@angular/core'
+import { filter, Observable, Subscription, take, timeout } from 'rxjs'
+import { AsyncResult } from '../models/async-result'
+
+/**
+ * How an operation runner handles an execution while another execution is still running:
+ * - `switch`: the running executions are cancelled and the new execution is started.
+ * - `exhaust`: the new execution is ignored, e.g. to prevent duplicate saves on a double click.
+ * - `queue`: the new execution is started when the running execution has finished.
+ * - `merge`: the new execution is started in parallel.
+ */
+export type AsyncOperationConcurrency = 'switch' | 'exhaust' | 'queue' | 'merge'
+
+export interface AsyncOperationRunnerOptions<TResult, TFilter> {
+    /** The concurrency mode of the runner. Defaults to `exhaust`. */
+    concurrency?: AsyncOperationConcurrency
+    /** The time in milliseconds after which an execution is cancelled and fails with a `TimeoutError`. */
+    timeout?: number
+    /** Called with the result of an execution that succeeded. */
+    success?: (result: AsyncResult<TResult, TFilter>) => void
+    /** Called with the result of an execution that failed. */
+    error?: (result: AsyncResult<TResult, TFilter>) => void
+}
+
+export interface AsyncOperationRunner<TInput, TResult, TFilter = null> {
+    /** Whether an execution is running or queued. Can be bound to the disabled state of a button. */
+    readonly pending: Signal<boolean>
+    /**
+     * Executes the operation for the given input.
+     * @returns A promise resolving with the first settled (successful or failed) async result of the operation, or with
+     * `null` when the execution was ignored, cancelled or completed without result. The promise is rejected with the
+     * errors that are not handled by the operation, with the error thrown by the `success` or `error` handler and with a
+     * `TimeoutError` when the timeout is exceeded.
+     */
+    execute: (input: TInput) => Promise<AsyncResult<TResult, TFilter> | null>
+    /** Cancels the running and queued executions. The signal passed to the operation is aborted. */
+    cancel: () => void
+}
+
+interface Execution<TInput, TResult, TFilter> {
+    input: TInput
+    resolve: (result: AsyncResult<TResult, TFilter> | null) => void
+    reject: (error: unknown) => void
+    abortController?: AbortController
+    subscription?: Subscription
+}
+
+/**
+ * Creates a runner for an asynchronous operation, e.g. a save. Unlike `executeAsyncOperation`, the pending state of the
+ * runner is always reset: when the operation succeeds, fails, throws, completes without result, times out or is
+ * cancelled. When created in an injection context, the executions are cancelled when the context is destroyed.
+ *
+ * @param operation The operation to execute. The abort signal is aborted when the execution is cancelled, so it can be
+ * passed to APIs like `fetch`. Unsubscribing from the returned observable cancels HTTP calls of the HttpClient.
+ * @param options The concurrency mode, timeout and handlers of the runner.
+ */
+export const createAsyncOperationRunner = <TInput, TResult, TFilter = null>(
+    operation: (input: TInput, abortSignal: AbortSignal) => Observable<AsyncResult<TResult, TFilter>>,
+    options: AsyncOperationRunnerOptions<TResult, TFilter> = {}
+): AsyncOperationRunner<TInput, TResult, TFilter> => {
+    const concurrency = options.concurrency ?? 'exhaust'
+    const running = new Set<Execution<TInput, TResult, TFilter>>()
+    const queue: Array<Execution<TInput, TResult, TFilter>> = []
+    const pendingCount = signal(0)
+
+    const updatePending = (): void => pendingCount.set(running.size + queue.length)
+
+    const finish = (execution: Execution<TInput, TResult, TFilter>): void => {
+        running.delete(execution)
+        const next = queue.shift()
+        if (next) {
+            start(next)
+        }
+        updatePending()
+    }
+
+    const start = (execution: Execution<TInput, TResult, TFilter>): void => {
+        const abortController = new AbortController()
+        execution.abortController = abortController
+        running.add(execution)
+        updatePending()
+
+        let operation$ = operation(execution.input, abortController.signal).pipe(
+            filter((result) => result.status === 'success' || result.status === 'failed'),
+            take(1)
+        )
+        if (options.timeout !== undefined) {
+            operation$ = operation$.pipe(timeout({ first: options.timeout }))
+        }
+
+        let settled = false
+        execution.subscription = operation$.subscribe({
+            next: (result) => {
+                settled = true
+                try {
+                    if (result.status === 'success') {
+                        options.success?.(result)
+                    } else {
+                        options.error?.(result)
+                    }
+                } catch (error) {
+                    execution.reject(error)
+                    return
+                }
+                execution.resolve(result)
+            },
+            error: (error: unknown) => {
+                settled = true
+                abortController.abort()
+                finish(execution)
+                execution.reject(error)
+            },
+            complete: () => {
+                if (!settled) {
+                    execution.resolve(null)
+                }
+                finish(execution)
+            }
+        })
+    }
+
+    const cancelExecution = (execution: Execution<TInput, TResult, TFilter>): void => {
+        execution.abortController?.abort()
+        execution.subscription?.unsubscribe()
+        running.delete(execution)
+        execution.resolve(null)
+    }
+
+    const cancel = (): void => {
+        queue.splice(0).forEach((execution) => execution.resolve(null))
+        running.forEach((execution) => cancelExecution(execution))
+        updatePending()
+    }
+
+    try {
+        inject(DestroyRef).onDestroy(cancel)
+    } catch {
+        // inject() throws when it is not called in an injection context, the executions should then be cancelled manually.
+    }
+
+    return {
+        pending: computed(() => pendingCount() > 0),
+        execute: (input: TInput) =>
+            new Promise((resolve, reject) => {
+                const execution: Execution<TInput, TResult, TFilter> = { input, resolve, reject }
+                if (running.size === 0) {
+                    start(execution)
+                    return
+                }
+
+                switch (concurrency) {
+                    case 'exhaust':
+                        resolve(null)
+                        break
+                    case 'queue':
+                        queue.push(execution)
+                        updatePending()
+                        break
+                    case 'switch':
+                        running.forEach((runningExecution) => cancelExecution(runningExecution))
+                        start(execution)
+                        break
+                    case 'merge':
+                        start(execution)
+                        break
+                }
+            }),
+        cancel
+    }
+}
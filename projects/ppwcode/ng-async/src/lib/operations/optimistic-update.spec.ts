@@ -0,0 +1,136 @@
+import { signal } from '@angular/core'
+import {
+    AsyncResult,
+    createFailedAsyncResult,
+    createPagedEntitiesMock,
+    createPendingAsyncResult,
+    createSuccessAsyncResult,
+    createSuccessPagedAsyncResult,
+    optimisticItemUpdate,
+    optimisticUpdate,
+    PagedAsyncResult
+} from '@ppwcode/ng-async'
+import { BehaviorSubject, EMPTY, of, Subject, throwError } from 'rxjs'
+
+interface User {
+    id: number
+    active: boolean
+}
+
+describe('optimistic updates', () => {
+    let request$: Subject<AsyncResult<null>>
+
+    beforeEach(() => {
+        request$ = new Subject()
+    })
+
+    describe('optimisticUpdate', () => {
+        it('should apply the change immediately and keep it when the request succeeds', async () => {
+            const target = signal(createSuccessAsyncResult(['a'], { page: 1 }))
+            const success = jasmine.createSpy('success')
+
+            const result = optimisticUpdate(target, (entity) => [...entity, 'b'], { request$, success })
+            expect(target()).toEqual(createSuccessAsyncResult(['a', 'b'], { page: 1 }))
+
+            request$.next(createPendingAsyncResult(null))
+            request$.next(createSuccessAsyncResult(null))
+
+            expect(await result).toEqual(createSuccessAsyncResult(null))
+            expect(target().entity).toEqual(['a', 'b'])
+            expect(success).toHaveBeenCalledTimes(1)
+        })
+
+        it('should roll back to the previous entity and surface the error when the request fails', async () => {
+            const target = new BehaviorSubject(createSuccessAsyncResult(['a']))
+            const error = jasmine.createSpy('error')
+
+            const result = optimisticUpdate(target, () => [], { request$, error })
+            expect(target.value.entity).toEqual([])
+
+            request$.next(createFailedAsyncResult(new Error('boom'), null))
+
+            expect((await result)?.error?.message).toBe('boom')
+            expect(target.value).toEqual(createSuccessAsyncResult(['a']))
+            expect(error).toHaveBeenCalledTimes(1)
+        })
+
+        it('should roll back when the request throws or completes without result', async () => {
+            const target = signal(createSuccessAsyncResult(1))
+
+            await expectAsync(
+                optimisticUpdate(target, (entity) => entity + 1, { request$: throwError(() => new Error('boom')) })
+            ).toBeRejectedWithError('boom')
+            expect(target().entity).toBe(1)
+
+            expect(await optimisticUpdate(target, (entity) => entity + 1, { request$: EMPTY })).toBeNull()
+            expect(target().entity).toBe(1)
+        })
+
+        it('should roll back and reject with the error thrown by a handler', async () => {
+            const target = signal(createSuccessAsyncResult(1))
+            const throwingHandler = (): void => {
+                throw new Error('handler failed')
+            }
+
+            const success = optimisticUpdate(target, (entity) => entity + 1, {
+                request$: of(createSuccessAsyncResult(null)),
+                success: throwingHandler
+            })
+            await expectAsync(success).toBeRejectedWithError('handler failed')
+            expect(target().entity).toBe(1)
+
+            const error = optimisticUpdate(target, (entity) => entity + 1, {
+                request$: of(createFailedAsyncResult(new Error('boom'), null)),
+                error: throwingHandler
+            })
+            await expectAsync(error).toBeRejectedWithError('handler failed')
+            expect(target().entity).toBe(1)
+        })
+    })
+
+    describe('optimisticItemUpdate', () => {
+        const users: Array<User> = [
+            { id: 1, active: true },
+            { id: 2, active: true }
+        ]
+
+        it('should replace the item with the same key in paged entities', async () => {
+            const target = signal<PagedAsyncResult<User, null>>(
+                createSuccessPagedAsyncResult(createPagedEntitiesMock(users), null)
+            )
+
+            const result = optimisticItemUpdate(target, { id: 2, active: false }, { trackBy: 'id', request$ })
+            expect(target().entity.items).toEqual([
+                { id: 1, active: true },
+                { id: 2, active: false }
+            ])
+
+            request$.next(createSuccessAsyncResult(null))
+            await result
+            expect(target().entity.items[1].active).toBe(false)
+        })
+
+        it('should only roll back the updated item when the request fails', async () => {
+            const target = signal(createSuccessAsyncResult(users))
+            const trackBy = (_index: number, user: User) => user.id
+            const otherRequest$ = new Subject<AsyncResult<null>>()
+
+            const result = optimisticItemUpdate(target, { id: 1, active: false }, { trackBy, request$ })
+            const otherResult = optimisticItemUpdate(
+                target,
+                { id: 2, active: false },
+                { trackBy, request$: otherRequest$ }
+            )
+
+            otherRequest$.next(createSuccessAsyncResult(null))
+            await otherResult
+            request$.next(createFailedAsyncResult(new Error('boom'), null))
+            await result
+
+            expect(target().entity).toEqual([
+                { id: 1, active: true },
+                { id: 2, active: false }
+            ])
+        })
+    })
+})
@@ -0,0 +1,156 @@
+import { TrackByFunction, untracked, WritableSignal } from '@angular/core'
+import { BehaviorSubject, filter, Observable, take } from 'rxjs'
+import { AsyncResult } from '../models/async-result'
+import { PagedEntities } from '../models/paged-entities'
+import { PpwTrackBy, toTrackByFunction } from '../models/track-by'
+
+/** The state holding the async result that is updated optimistically. */
+export type OptimisticUpdateTarget<TResult, TFilter = null> =
+    | WritableSignal<AsyncResult<TResult, TFilter>>
+    | BehaviorSubject<AsyncResult<TResult, TFilter>>
+
+export interface OptimisticUpdateOptions<TResponse, TResponseFilter = null> {
+    /** The request persisting the change, e.g. a service call piped through `handleAsyncResult`. */
+    request$: Observable<AsyncResult<TResponse, TResponseFilter>>
+    /** Called with the result of the request when it succeeded. */
+    success?: (result: AsyncResult<TResponse, TResponseFilter>) => void
+    /** Called with the result of the request when it failed, after the change has been rolled back. */
+    error?: (result: AsyncResult<TResponse, TResponseFilter>) => void
+}
+
+export interface OptimisticItemUpdateOptions<TItem, TResponse, TResponseFilter = null>
+    extends OptimisticUpdateOptions<TResponse, TResponseFilter> {
+    /**
+     * Identifies the item to update: the name of its key property, or the trackBy function that is also passed to
+     * `<ppw-table>`. The key is computed from the item only, so a trackBy function should not depend on the index.
+     */
+    trackBy: PpwTrackBy<TItem>
+}
+
+/**
+ * Applies a local change to the entity of the target immediately and executes the request persisting the change.
+ * When the request fails, throws or completes without result, or a handler throws, the target is rolled back to the
+ * previous entity.
+ *
+ * @param target The signal or subject holding the async result.
+ * @param apply Returns the changed entity. The given entity should not be mutated, so it can be restored.
+ * @param options The request and the handlers for its result.
+ * @returns A promise resolving with the result of the request, or with `null` when it completed without result. The
+ * promise is rejected with the errors that are not handled by the request and with the error thrown by a handler.
+ */
+export const optimisticUpdate = <TResult, TFilter, TResponse, TResponseFilter = null>(
+    target: OptimisticUpdateTarget<TResult, TFilter>,
+    apply: (entity: TResult) => TResult,
+    options: OptimisticUpdateOptions<TResponse, TResponseFilter>
+): Promise<AsyncResult<TResponse, TResponseFilter> | null> => {
+    const previousEntity = readResult(target).entity
+    writeEntity(target, apply(previousEntity))
+
+    return executeOptimisticRequest(options, () => writeEntity(target, previousEntity))
+}
+
+/**
+ * Replaces an item in the array or paged entities of the target immediately and executes the request persisting the
+ * change. When the request fails, throws or completes without result, or a handler throws, only that item is rolled
+ * back, so concurrent updates of other items, e.g. other rows of a table, are kept.
+ *
+ * @param target The signal or subject holding the async result with the items.
+ * @param item The changed item, which replaces the item with the same key.
+ * @param options The key of the items, the request and the handlers for its result.
+ * @returns A promise resolving with the result of the request, or with `null` when it completed without result. The
+ * promise is rejected with the errors that are not handled by the request and with the error thrown by a handler.
+ */
+export const optimisticItemUpdate = <
+    TItem,
+    TEntity extends Array<TItem> | PagedEntities<TItem>,
+    TFilter,
+    TResponse,
+    TResponseFilter = null
+>(
+    target: OptimisticUpdateTarget<TEntity, TFilter>,
+    item: TItem,
+    options: OptimisticItemUpdateOptions<TItem, TResponse, TResponseFilter>
+): Promise<AsyncResult<TResponse, TResponseFilter> | null> => {
+    const keyOf = toTrackByFunction(options.trackBy)
+    const key = keyOf(-1, item)
+    const previousItem = getItems(readResult(target).entity).find((current, index) => keyOf(index, current) === key)
+
+    writeEntity(target, replaceItem(readResult(target).entity, keyOf, key, item))
+
+    return executeOptimisticRequest(options, () => {
+        if (previousItem !== undefined) {
+            writeEntity(target, replaceItem(readResult(target).entity, keyOf, key, previousItem))
+        }
+    })
+}
+
+const executeOptimisticRequest = <TResponse, TResponseFilter>(
+    options: OptimisticUpdateOptions<TResponse, TResponseFilter>,
+    rollback: () => void
+): Promise<AsyncResult<TResponse, TResponseFilter> | null> =>
+    new Promise((resolve, reject) => {
+        let settled = false
+        options.request$
+            .pipe(
+                filter((result) => result.status === 'success' || result.status === 'failed'),
+                take(1)
+            )
+            .subscribe({
+                next: (result) => {
+                    settled = true
+                    if (result.status === 'failed') {
+                        rollback()
+                    }
+                    try {
+                        if (result.status === 'success') {
+                            options.success?.(result)
+                        } else {
+                            options.error?.(result)
+                        }
+                    } catch (error) {
+                        if (result.status === 'success') {
+                            rollback()
+                        }
+                        reject(error)
+                        return
+                    }
+                    resolve(result)
+                },
+                error: (error: unknown) => {
+                    rollback()
+                    reject(error)
+                },
+                complete: () => {
+                    if (!settled) {
+                        rollback()
+                        resolve(null)
+                    }
+                }
+            })
+    })
+
+const readResult = <TResult, TFilter>(
+    target: OptimisticUpdateTarget<TResult, TFilter>
+): AsyncResult<TResult, TFilter> => (target instanceof BehaviorSubject ? target.value : untracked(target))
+
+const writeEntity = <TResult, TFilter>(target: OptimisticUpdateTarget<TResult, TFilter>, entity: TResult): void => {
+    const result = { ...readResult(target), entity }
+    if (target instanceof BehaviorSubject) {
+        target.next(result)
+    } else {
+        target.set(result)
+    }
+}
+
+const getItems = <TItem>(entity: Array<TItem> | PagedEntities<TItem>): Array<TItem> =>
+    Array.isArray(entity) ? entity : entity.items
+
+const replaceItem = <TItem, TEntity extends Array<TItem> | PagedEntities<TItem>>(
+    entity: TEntity,
+    keyOf: TrackByFunction<TItem>,
+    key: unknown,
+    item: TItem
+): TEntity => {
+    const items = getItems(entity).map((current, index) => (keyOf(index, current) === key ? item : current))
+    return (Array.isArray(entity) ? items : { ...entity, items }) as TEntity
+}
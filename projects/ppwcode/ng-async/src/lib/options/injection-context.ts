@@ -0,0 +1,30 @@
+import { inject, Injector, isDevMode } from '@angular/core'
+
+const warnedCallers = new Set<string>()
+
+/**
+ * Returns the given injector or the injector of the current injection context.
+ * Outside an injection context `null` is returned and, in dev mode, a warning is logged once per caller because the
+ * configuration that is provided through dependency injection is ignored then.
+ * @param caller The name of the function that needs the injector, used in the warning.
+ * @param injector The injector that is passed explicitly to the caller.
+ */
+export const resolveInjector = (caller: string, injector?: Injector | null): Injector | null => {
+    if (injector) {
+        return injector
+    }
+
+    try {
+        return inject(Injector)
+    } catch {
+        // inject() throws when it is not called in an injection context. Injecting the Injector can't fail otherwise.
+        if (isDevMode() && !warnedCallers.has(caller)) {
+            warnedCallers.add(caller)
+            console.warn(
+                `${caller} is called outside an injection context, the configuration provided through dependency ` +
+                    'injection is ignored. Call it in an injection context or pass the injector explicitly.'
+            )
+        }
+        return null
+    }
+}
@@ -0,0 +1,22 @@
+import { InjectionToken, Provider } from '@angular/core'
+
+export interface PpwAsyncResultCacheOptions {
+    /** The time in milliseconds that a cached result is valid when no ttl is given for a request. Defaults to 5 minutes. */
+    defaultTtl?: number
+    /**
+     * The token of the storage that is used for requests that are cached persistently, e.g. `LOCAL_STORAGE_TOKEN` of
+     * `@ppwcode/ng-common`. Without storage, persistent requests are only cached in memory.
+     */
+    storageToken?: InjectionToken<Storage>
+    /** The prefix of the keys in the persistent storage. Defaults to `ppw-async-result-cache:`. */
+    storageKeyPrefix?: string
+}
+
+export const PPW_ASYNC_RESULT_CACHE_OPTIONS = new InjectionToken<PpwAsyncResultCacheOptions>(
+    'PPW_ASYNC_RESULT_CACHE_OPTIONS'
+)
+
+export const provideAsyncResultCacheOptions = (options: PpwAsyncResultCacheOptions): Provider => ({
+    provide: PPW_ASYNC_RESULT_CACHE_OPTIONS,
+    useValue: options
+})
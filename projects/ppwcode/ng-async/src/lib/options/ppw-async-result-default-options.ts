@@ -1,7 +1,23 @@
 import { InjectionToken, Type } from '@angular/core'
+import { PpwIsEmptyPredicate } from '../models/async-result'
 
 export interface PpwAsyncResultDefaultOptions {
     emptyResultComponent?: Type<unknown>
+    /** Determines whether the entity of a successful async result is empty. Defaults to `isEmptyEntity`. */
+    isEmpty?: PpwIsEmptyPredicate
+    /**
+     * Component that is rendered for failed async results without `ppw-async-result-failed` template.
+     * The component receives the `error` and `retry` inputs, see `PpwAsyncResultFailedComponent`.
+     */
+    failedResultComponent?: Type<PpwAsyncResultFailedComponent>
+    /** The (translatable) label of the retry button in the default failure view. Defaults to `Retry`. */
+    retryLabel?: string
+}
+
+/** The inputs that a `failedResultComponent` should declare. */
+export interface PpwAsyncResultFailedComponent {
+    error: () => Error | undefined
+    retry: () => (() => void) | null
 }
 
 export const PPW_ASYNC_RESULT_DEFAULT_OPTIONS = new InjectionToken<PpwAsyncResultDefaultOptions>(
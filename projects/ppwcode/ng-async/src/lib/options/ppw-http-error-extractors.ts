@@ -0,0 +1,38 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { InjectionToken, Injector, Provider } from '@angular/core'
+import { resolveInjector } from './injection-context'
+
+/**
+ * A function that extracts an error from a failed response.
+ * Returning `null` or `undefined` means that the extractor does not handle the response, in which case the next extractor
+ * in the chain is consulted.
+ */
+export type PpwHttpErrorExtractor = (httpError: HttpErrorResponse) => Error | null | undefined
+
+/**
+ * Multi-provider token for the chain of extractors that are consulted in order by `extractHttpError`.
+ * When none of the extractors handles the response, the default implementation of the SDK is used.
+ */
+export const PPW_HTTP_ERROR_EXTRACTORS = new InjectionToken<Array<PpwHttpErrorExtractor>>('PPW_HTTP_ERROR_EXTRACTORS')
+
+/**
+ * Provides the given extractors in the chain of http error extractors. The extractors are consulted in the order in
+ * which they are provided.
+ * @param extractors The extractors to add to the chain.
+ */
+export const provideHttpErrorExtractors = (...extractors: Array<PpwHttpErrorExtractor>): Array<Provider> =>
+    extractors.map((extractor) => ({
+        provide: PPW_HTTP_ERROR_EXTRACTORS,
+        useValue: extractor,
+        multi: true
+    }))
+
+/**
+ * Gets the chain of http error extractors from the given injector, or from the current injection context.
+ * Outside an injection context and without injector, e.g. when the async result handling is set up in the callback of a
+ * `switchMap`, the provided extractors can't be resolved: an empty chain is returned so that the default implementation
+ * is used, and a warning is logged in dev mode.
+ * @param injector The injector to resolve the extractors from when not called in an injection context.
+ */
+export const injectHttpErrorExtractors = (injector?: Injector | null): Array<PpwHttpErrorExtractor> =>
+    resolveInjector('injectHttpErrorExtractors', injector)?.get(PPW_HTTP_ERROR_EXTRACTORS, null) ?? []
@@ -0,0 +1,56 @@
+import { InjectionToken, Injector, Provider } from '@angular/core'
+import { resolveInjector } from './injection-context'
+
+export interface PpwRetryPolicy {
+    /** The maximum number of attempts, including the first one. */
+    maxAttempts: number
+    /** The HTTP status codes of the transient errors that are retried. */
+    statusCodes: Array<number>
+    /** The HTTP methods of the idempotent requests that are retried. */
+    methods: Array<string>
+    /** The delay in milliseconds before the first retry. The delay doubles for every next retry. */
+    initialDelay: number
+    /**
+     * The maximum delay in milliseconds before a retry. A request is not retried when the `Retry-After` header of the
+     * response asks to wait longer.
+     */
+    maxDelay: number
+    /** Whether a random part of the delay is skipped, so clients that failed at the same time don't retry together. */
+    jitter: boolean
+}
+
+/** The options of the retry policy for a single service call. */
+export interface PpwRetryOptions extends Partial<PpwRetryPolicy> {
+    /** The HTTP method of the service call. Defaults to `GET`. */
+    method?: string
+}
+
+export const DEFAULT_RETRY_POLICY: PpwRetryPolicy = {
+    maxAttempts: 3,
+    statusCodes: [429, 502, 503, 504],
+    methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    initialDelay: 500,
+    maxDelay: 10000,
+    jitter: true
+}
+
+/** Token for the retry policy that is used by `handleAsyncResult` and `handlePagedAsyncResult`. */
+export const PPW_RETRY_POLICY = new InjectionToken<PpwRetryPolicy>('PPW_RETRY_POLICY')
+
+/**
+ * Enables retrying transient HTTP errors in `handleAsyncResult` and `handlePagedAsyncResult`.
+ * @param policy The options that differ from `DEFAULT_RETRY_POLICY`.
+ */
+export const provideRetryPolicy = (policy: Partial<PpwRetryPolicy> = {}): Provider => ({
+    provide: PPW_RETRY_POLICY,
+    useValue: { ...DEFAULT_RETRY_POLICY, ...policy }
+})
+
+/**
+ * Gets the provided retry policy from the given injector, or from the current injection context.
+ * Returns `null` when no policy is provided. Outside an injection context and without injector, the provided policy
+ * can't be resolved: `null` is returned and a warning is logged in dev mode.
+ * @param injector The injector to resolve the policy from when not called in an injection context.
+ */
+export const injectRetryPolicy = (injector?: Injector | null): PpwRetryPolicy | null =>
+    resolveInjector('injectRetryPolicy', injector)?.get(PPW_RETRY_POLICY, null) ?? null
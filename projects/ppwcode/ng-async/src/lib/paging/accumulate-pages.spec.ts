@@ -0,0 +1,95 @@
+import {
+    accumulatePages,
+    createFailedPagedAsyncResult,
+    createPagedEntitiesMock,
+    createPagedRequest,
+    createPendingAsyncResult,
+    createSuccessPagedAsyncResult,
+    PagedAsyncResult,
+    PagedEntities,
+    PagedRequest,
+    withPage
+} from '@ppwcode/ng-async'
+import { Subject } from 'rxjs'
+
+interface User {
+    id: number
+    name: string
+}
+
+describe('accumulatePages', () => {
+    let source$: Subject<PagedAsyncResult<User, PagedRequest<{ search: string }>>>
+    let results: Array<PagedAsyncResult<User, PagedRequest<{ search: string }>>>
+    const request = createPagedRequest({ search: 'ppw' }, 2)
+
+    const page = (pageIndex: number, ...items: Array<User>): PagedEntities<User> => ({
+        ...createPagedEntitiesMock(items),
+        pageIndex
+    })
+    const lastItems = () => results[results.length - 1].entity.items.map((user) => user.id)
+
+    beforeEach(() => {
+        source$ = new Subject()
+        results = []
+        source$.pipe(accumulatePages({ trackBy: 'id' })).subscribe((result) => results.push(result))
+    })
+
+    it('should merge successive pages without duplicates', () => {
+        source$.next(createSuccessPagedAsyncResult(page(1, { id: 1, name: 'a' }, { id: 2, name: 'b' }), request))
+        source$.next(
+            createSuccessPagedAsyncResult(page(2, { id: 2, name: 'b2' }, { id: 3, name: 'c' }), withPage(request, 2))
+        )
+
+        const lastResult = results[results.length - 1]
+        expect(lastResult.entity.items).toEqual([
+            { id: 1, name: 'a' },
+            { id: 2, name: 'b2' },
+            { id: 3, name: 'c' }
+        ])
+        expect(lastResult.entity.pageIndex).toBe(2)
+    })
+
+    it('should keep the loaded items while the next page is pending or when it failed', () => {
+        source$.next(createSuccessPagedAsyncResult(page(1, { id: 1, name: 'a' }), request))
+        source$.next(createPendingAsyncResult(page(1), withPage(request, 2)))
+        expect(results[1].status).toBe('pending')
+        expect(lastItems()).toEqual([1])
+
+        source$.next(createFailedPagedAsyncResult(new Error('boom'), page(1), withPage(request, 2)))
+        expect(results[2].status).toBe('failed')
+        expect(lastItems()).toEqual([1])
+
+        source$.next(createSuccessPagedAsyncResult(page(2, { id: 2, name: 'b' }), withPage(request, 2)))
+        expect(lastItems()).toEqual([1, 2])
+    })
+
+    it('should reset when the filters change or the first page is loaded again', () => {
+        source$.next(createSuccessPagedAsyncResult(page(1, { id: 1, name: 'a' }), request))
+        source$.next(createSuccessPagedAsyncResult(page(2, { id: 2, name: 'b' }), withPage(request, 2)))
+
+        source$.next(createSuccessPagedAsyncResult(page(1, { id: 3, name: 'c' }), request))
+        expect(lastItems()).toEqual([3])
+
+        source$.next(
+            createSuccessPagedAsyncResult(page(2, { id: 4, name: 'd' }), {
+                ...withPage(request, 2),
+                filters: { search: 'x' }
+            })
+        )
+        expect(lastItems()).toEqual([4])
+    })
+
+    it('should use the page index of the entities when the filters are no paged request', () => {
+        const pages$ = new Subject<PagedAsyncResult<User, { search: string }>>()
+        const trackBy = (_index: number, user: User) => user.id
+        let lastResult: PagedAsyncResult<User, { search: string }> | undefined
+        pages$.pipe(accumulatePages({ trackBy })).subscribe((result) => (lastResult = result))
+
+        pages$.next(createSuccessPagedAsyncResult(page(1, { id: 1, name: 'a' }), { search: 'ppw' }))
+        pages$.next(createSuccessPagedAsyncResult(page(2, { id: 2, name: 'b' }), { search: 'ppw' }))
+        expect(lastResult?.entity.items.length).toBe(2)
+
+        pages$.next(createSuccessPagedAsyncResult(page(1, { id: 1, name: 'a' }), { search: 'ppw' }))
+        expect(lastResult?.entity.items.length).toBe(1)
+    })
+})
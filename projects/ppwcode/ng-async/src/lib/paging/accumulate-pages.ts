@@ -0,0 +1,85 @@
+import { OperatorFunction, scan } from 'rxjs'
+import { PagedAsyncResult } from '../models/paged-async-result'
+import { PagedEntities } from '../models/paged-entities'
+import { isPagedRequest } from '../models/paged-request'
+import { PpwTrackBy, toTrackByFunction } from '../models/track-by'
+
+export interface AccumulatePagesOptions<TEntity, TFilters> {
+    /** Identifies the items, so items that are returned on multiple pages are only shown once. */
+    trackBy: PpwTrackBy<TEntity>
+    /**
+     * Whether the filters of two results are the same, so the pages of the results can be accumulated. By default, the
+     * filters are compared by value, ignoring the page index of a paged request.
+     */
+    filtersEqual?: (previousFilters: TFilters | null, filters: TFilters | null) => boolean
+}
+
+/**
+ * Accumulates the successive pages of paged async results into one PagedEntities, e.g. for a "load more" list.
+ * Items that are already loaded are replaced by their new version instead of being added twice. The accumulation is
+ * reset when the filters change or the first page is loaded again.
+ *
+ * While the next page is pending or when it failed, the async result carries the items that are already loaded, so the
+ * list can still be shown.
+ * @param options The trackBy of the items and the comparison of the filters.
+ */
+export const accumulatePages = <TEntity, TFilters>(
+    options: AccumulatePagesOptions<TEntity, TFilters>
+): OperatorFunction<PagedAsyncResult<TEntity, TFilters>, PagedAsyncResult<TEntity, TFilters>> => {
+    const keyOf = toTrackByFunction(options.trackBy)
+    const filtersEqual = options.filtersEqual ?? areFiltersEqual
+
+    return scan(
+        (accumulated: PagedAsyncResult<TEntity, TFilters> | null, result: PagedAsyncResult<TEntity, TFilters>) => {
+            const isNextPage =
+                accumulated !== null &&
+                (accumulated.status === 'success' ||
+                    accumulated.status === 'pending' ||
+                    accumulated.status === 'failed') &&
+                result.status !== 'initial' &&
+                !isFirstPage(result) &&
+                filtersEqual(accumulated.filters, result.filters)
+            if (!isNextPage) {
+                return result
+            }
+
+            if (result.status !== 'success') {
+                return { ...result, entity: accumulated.entity }
+            }
+
+            return { ...result, entity: mergePages(accumulated.entity, result.entity, keyOf) }
+        },
+        null
+    ) as OperatorFunction<PagedAsyncResult<TEntity, TFilters>, PagedAsyncResult<TEntity, TFilters>>
+}
+
+const mergePages = <TEntity>(
+    loaded: PagedEntities<TEntity>,
+    page: PagedEntities<TEntity>,
+    keyOf: (index: number, item: TEntity) => unknown
+): PagedEntities<TEntity> => {
+    const pageItemsByKey = new Map(page.items.map((item, index) => [keyOf(loaded.items.length + index, item), item]))
+    const items = loaded.items.map((item, index) => {
+        const key = keyOf(index, item)
+        const newVersion = pageItemsByKey.get(key)
+        pageItemsByKey.delete(key)
+        return newVersion ?? item
+    })
+
+    return { ...page, items: [...items, ...pageItemsByKey.values()] }
+}
+
+/**
+ * Whether the result is for the first page, according to the paged request in the filters. When the filters are no
+ * paged request, only the entities of a successful result tell the page index.
+ */
+const isFirstPage = <TEntity, TFilters>(result: PagedAsyncResult<TEntity, TFilters>): boolean =>
+    isPagedRequest(result.filters)
+        ? result.filters.pageIndex === 1
+        : result.status === 'success' && result.entity.pageIndex === 1
+
+const areFiltersEqual = <TFilters>(previousFilters: TFilters | null, filters: TFilters | null): boolean => {
+    const withoutPage = (value: TFilters | null): unknown =>
+        isPagedRequest(value) ? { ...value, pageIndex: null } : value
+    return JSON.stringify(withoutPage(previousFilters)) === JSON.stringify(withoutPage(filters))
+}
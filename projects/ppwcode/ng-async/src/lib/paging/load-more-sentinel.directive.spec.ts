@@ -0,0 +1,104 @@
+import { Component, signal } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import { PpwLoadMoreSentinelDirective } from '@ppwcode/ng-async'
+
+class FakeIntersectionObserver {
+    public static instances: Array<FakeIntersectionObserver> = []
+    public observedElements: Array<Element> = []
+    public disconnected = false
+
+    constructor(
+        public callback: IntersectionObserverCallback,
+        public options?: IntersectionObserverInit
+    ) {
+        FakeIntersectionObserver.instances.push(this)
+    }
+
+    public observe(element: Element): void {
+        this.observedElements.push(element)
+    }
+
+    public disconnect(): void {
+        this.disconnected = true
+    }
+
+    public intersect(isIntersecting: boolean): void {
+        this.callback(
+            this.observedElements.map((target) => ({ target, isIntersecting }) as IntersectionObserverEntry),
+            this as unknown as IntersectionObserver
+        )
+    }
+}
+
+describe('PpwLoadMoreSentinelDirective', () => {
+    let originalIntersectionObserver: typeof IntersectionObserver
+
+    const createFixture = () => {
+        const fixture = TestBed.createComponent(TestComponent)
+        fixture.detectChanges()
+        return fixture
+    }
+    const lastObserver = () => FakeIntersectionObserver.instances[FakeIntersectionObserver.instances.length - 1]
+
+    beforeEach(() => {
+        originalIntersectionObserver = globalThis.IntersectionObserver
+        globalThis.IntersectionObserver = FakeIntersectionObserver as unknown as typeof IntersectionObserver
+        FakeIntersectionObserver.instances = []
+    })
+
+    afterEach(() => {
+        globalThis.IntersectionObserver = originalIntersectionObserver
+    })
+
+    it('should emit load more when the sentinel scrolls into view', () => {
+        const fixture = createFixture()
+
+        expect(lastObserver().observedElements).toEqual([fixture.nativeElement.querySelector('.sentinel')])
+        expect(lastObserver().options?.rootMargin).toBe('100px')
+
+        lastObserver().intersect(false)
+        expect(fixture.componentInstance.loadMoreCount).toBe(0)
+
+        lastObserver().intersect(true)
+        expect(fixture.componentInstance.loadMoreCount).toBe(1)
+    })
+
+    it('should stop observing while disabled', () => {
+        const fixture = createFixture()
+        const observer = lastObserver()
+
+        fixture.componentInstance.disabled.set(true)
+        fixture.detectChanges()
+
+        expect(observer.disconnected).toBe(true)
+        expect(FakeIntersectionObserver.instances.length).toBe(1)
+
+        fixture.componentInstance.disabled.set(false)
+        fixture.detectChanges()
+
+        expect(FakeIntersectionObserver.instances.length).toBe(2)
+    })
+
+    it('should disconnect when destroyed', () => {
+        const fixture = createFixture()
+
+        fixture.destroy()
+
+        expect(lastObserver().disconnected).toBe(true)
+    })
+})
+
+@Component({
+    template: `<div
+        class="sentinel"
+        ppw-load-more-sentinel
+        rootMargin="100px"
+        [disabled]="disabled()"
+        (loadMore)="loadMoreCount = loadMoreCount + 1"
+    ></div>`,
+    imports: [PpwLoadMoreSentinelDirective]
+})
+class TestComponent {
+    public disabled = signal(false)
+    public loadMoreCount = 0
+}
@@ -0,0 +1,53 @@
+import {
+    Directive,
+    effect,
+    ElementRef,
+    inject,
+    input,
+    InputSignal,
+    NgZone,
+    output,
+    OutputEmitterRef
+} from '@angular/core'
+
+/**
+ * Emits `loadMore` when the host element scrolls into view, e.g. at the end of a "load more" list of which the pages
+ * are accumulated with `accumulatePages`. Nothing is emitted while the sentinel is disabled, e.g. while the next page
+ * is loading or when there is no next page.
+ *
+ * `<div ppw-load-more-sentinel [disabled]="!users().entity.hasNextPage || users().status === 'pending'" (loadMore)="loadNextPage()"></div>`
+ */
+@Directive({
+    // eslint-disable-next-line @angular-eslint/directive-selector
+    selector: '[ppw-load-more-sentinel]'
+})
+export class PpwLoadMoreSentinelDirective {
+    // Inputs
+    public disabled: InputSignal<boolean> = input(false)
+    /** The margin around the viewport in which the sentinel is considered visible, e.g. `200px` to load earlier. */
+    public rootMargin: InputSignal<string> = input('0px')
+
+    // Outputs
+    public loadMore: OutputEmitterRef<void> = output()
+
+    #elementRef = inject<ElementRef<HTMLElement>>(ElementRef)
+    #ngZone = inject(NgZone)
+
+    // eslint-disable-next-line no-unused-private-class-members
+    #observe = effect((onCleanup) => {
+        if (this.disabled() || typeof IntersectionObserver === 'undefined') {
+            return
+        }
+
+        const observer = new IntersectionObserver(
+            (entries: Array<IntersectionObserverEntry>) => {
+                if (entries.some((entry) => entry.isIntersecting)) {
+                    this.#ngZone.run(() => this.loadMore.emit())
+                }
+            },
+            { rootMargin: this.rootMargin() }
+        )
+        observer.observe(this.#elementRef.nativeElement)
+        onCleanup(() => observer.disconnect())
+    })
+}
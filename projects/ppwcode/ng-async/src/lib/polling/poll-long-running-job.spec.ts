@@ -0,0 +1,125 @@
+import { HttpClient, HttpHeaders, provideHttpClient } from '@angular/common/http'
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
+import { Injector } from '@angular/core'
+import { fakeAsync, TestBed, tick } from '@angular/core/testing'
+import {
+    AsyncResult,
+    FileDownload,
+    pollLongRunningJob,
+    PpwJobPollingOptions,
+    provideHttpErrorExtractors
+} from '@ppwcode/ng-async'
+import { TimeoutError } from 'rxjs'
+
+describe('pollLongRunningJob', () => {
+    let httpClient: HttpClient
+    let httpTestingController: HttpTestingController
+    let results: Array<AsyncResult<FileDownload | null>>
+
+    const startJob = (options: PpwJobPollingOptions = {}) => {
+        TestBed.runInInjectionContext(() =>
+            httpClient
+                .post('/api/reports', {}, { observe: 'response' })
+                .pipe(pollLongRunningJob({ interval: 1000, ...options }))
+        ).subscribe((result) => results.push(result))
+
+        httpTestingController
+            .expectOne('/api/reports')
+            .flush(null, { status: 202, statusText: 'Accepted', headers: new HttpHeaders({ Location: '/api/jobs/1' }) })
+    }
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ providers: [provideHttpClient(), provideHttpClientTesting()] })
+        httpClient = TestBed.inject(HttpClient)
+        httpTestingController = TestBed.inject(HttpTestingController)
+        results = []
+    })
+
+    afterEach(() => httpTestingController.verify())
+
+    it('should poll the status resource and download the file of the completed job', fakeAsync(() => {
+        startJob()
+        expect(results.map((result) => result.status)).toEqual(['pending'])
+
+        tick(1000)
+        httpTestingController.expectOne('/api/jobs/1').flush({ progress: 40 }, { status: 202, statusText: 'Accepted' })
+        expect(results[1].progress?.percentage).toBe(40)
+
+        tick(1000)
+        httpTestingController
+            .expectOne('/api/jobs/1')
+            .flush(null, { status: 200, statusText: 'OK', headers: new HttpHeaders({ Location: '/api/files/1' }) })
+        httpTestingController.expectOne('/api/files/1').flush(new Blob(['report']), {
+            headers: new HttpHeaders({ 'Content-Disposition': 'attachment; filename="report.pdf"' })
+        })
+
+        const lastResult = results[results.length - 1]
+        expect(lastResult.status).toBe('success')
+        expect(lastResult.entity?.fileName).toBe('report.pdf')
+
+        tick(5000)
+        httpTestingController.expectNone('/api/jobs/1')
+    }))
+
+    it('should fail when the job failed', fakeAsync(() => {
+        startJob()
+
+        tick(1000)
+        httpTestingController.expectOne('/api/jobs/1').flush({ message: 'REPORT_FAILED' })
+
+        expect(results[results.length - 1].error?.message).toBe('REPORT_FAILED')
+    }))
+
+    it('should fail with a TimeoutError when the job takes too long', fakeAsync(() => {
+        startJob({ timeout: 1500 })
+
+        tick(1000)
+        httpTestingController.expectOne('/api/jobs/1').flush(null, { status: 202, statusText: 'Accepted' })
+        tick(500)
+
+        expect(results[results.length - 1].error).toBeInstanceOf(TimeoutError)
+        tick(1000)
+        httpTestingController.expectNone('/api/jobs/1')
+    }))
+
+    it('should stop polling when the abort signal is aborted', fakeAsync(() => {
+        const abortController = new AbortController()
+        startJob({ abortSignal: abortController.signal })
+
+        abortController.abort()
+        tick(1000)
+
+        httpTestingController.expectNone('/api/jobs/1')
+        expect(results.length).toBe(1)
+    }))
+
+    it('should emit the file of a response that is not accepted', () => {
+        TestBed.runInInjectionContext(() =>
+            httpClient.get('/api/reports/1', { responseType: 'blob', observe: 'response' }).pipe(pollLongRunningJob())
+        ).subscribe((result) => results.push(result))
+
+        httpTestingController.expectOne('/api/reports/1').flush(new Blob(['report']))
+
+        expect(results.length).toBe(1)
+        expect(results[0].entity?.blob.size).toBe(6)
+    })
+
+    it('should use the HttpClient and the extractors of the injector that is passed outside an injection context', () => {
+        TestBed.resetTestingModule().configureTestingModule({
+            providers: [
+                provideHttpClient(),
+                provideHttpClientTesting(),
+                provideHttpErrorExtractors(() => new Error('PROVIDED'))
+            ]
+        })
+        httpTestingController = TestBed.inject(HttpTestingController)
+
+        TestBed.inject(HttpClient)
+            .post('/api/reports', {}, { observe: 'response' })
+            .pipe(pollLongRunningJob({ injector: TestBed.inject(Injector) }))
+            .subscribe((result) => results.push(result))
+        httpTestingController.expectOne('/api/reports').flush(null, { status: 409, statusText: 'Conflict' })
+
+        expect(results.map((result) => result.error?.message)).toEqual(['PROVIDED'])
+    })
+})
@@ -0,0 +1,201 @@
+import { HttpClient, HttpResponse } from '@angular/common/http'
+import { inject, Injector } from '@angular/core'
+import {
+    exhaustMap,
+    fromEvent,
+    map,
+    merge,
+    NEVER,
+    Observable,
+    of,
+    OperatorFunction,
+    startWith,
+    switchMap,
+    takeUntil,
+    takeWhile,
+    timer,
+    TimeoutError
+} from 'rxjs'
+import { DEFAULT_HTTP_ERROR_CODES } from '../constants/error-codes'
+import { expectAsyncResultHttpError } from '../error-handling'
+import {
+    AsyncResult,
+    createFailedAsyncResult,
+    createPendingAsyncResult,
+    createSuccessAsyncResult
+} from '../models/async-result'
+import { FileDownload, httpResponseToFileDownload } from '../models/file-download'
+import { createProgress } from '../models/progress'
+import { injectHttpErrorExtractors } from '../options/ppw-http-error-extractors'
+
+/** The state of a long-running job, as resolved from a response of its status resource. */
+export type PpwJobStatus =
+    | {
+          state: 'running'
+          /** The progress of the job as percentage (0-100), if it is reported. */
+          percentage?: number
+      }
+    | {
+          state: 'completed'
+          /** The url of the file produced by the job, relative urls are resolved against the status url. */
+          resultUrl: string
+      }
+    | {
+          state: 'failed'
+          /** The (translatable) message of the failure. */
+          message: string
+      }
+
+export interface PpwJobPollingOptions<TStatus = unknown> {
+    /** The time in milliseconds between two requests of the status resource. Defaults to 2 seconds. */
+    interval?: number
+    /** The time in milliseconds after which the polling stops with a failed async result with a `TimeoutError`. */
+    timeout?: number
+    /** Stops the polling without result when the signal is aborted, e.g. by an async operation runner. */
+    abortSignal?: AbortSignal
+    /** Resolves the state of the job from a response of its status resource. Defaults to `resolveJobStatus`. */
+    resolveStatus?: (response: HttpResponse<TStatus>) => PpwJobStatus
+    /** The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`. */
+    httpErrorCodes?: Array<number>
+    /**
+     * The injector to resolve the HttpClient and the http error extractors from, when the operator is not created in an
+     * injection context.
+     */
+    injector?: Injector
+}
+
+/**
+ * The default resolver of the state of a job. A `202 Accepted` response means that the job is still running, with the
+ * percentage in the `progress` property of the body, if any. A response with a `Location` header or a `resultUrl`
+ * property in the body means that the job is completed. Other responses mean that the job failed, with the `message`
+ * or `error` property of the body as message.
+ */
+export const resolveJobStatus = (response: HttpResponse<unknown>): PpwJobStatus => {
+    const body = (typeof response.body === 'object' && response.body !== null ? response.body : {}) as Record<
+        string,
+        unknown
+    >
+    if (response.status === 202) {
+        return typeof body['progress'] === 'number'
+            ? { state: 'running', percentage: body['progress'] }
+            : { state: 'running' }
+    }
+
+    const resultUrl = response.headers.get('Location') ?? body['resultUrl']
+    if (typeof resultUrl === 'string') {
+        return { state: 'completed', resultUrl }
+    }
+
+    const message = body['message'] ?? body['error']
+    return { state: 'failed', message: typeof message === 'string' ? message : 'The job did not produce a result.' }
+}
+
+/**
+ * Polls the status resource of a long-running job that is started by the source request, and downloads the file the
+ * job produced. The source request should observe the response: `this.httpClient.post(url, body, { observe: 'response' })`.
+ *
+ * When the response is `202 Accepted`, its `Location` header is polled until the job is completed or failed. While
+ * polling, pending async results carrying the progress of the job are emitted. The file is emitted as a successful
+ * async result, so it can be saved with `saveFileDownload()`. A response that is not `202 Accepted` is expected to
+ * contain the file itself.
+ *
+ * Unsubscribing stops the polling. This operator should be created in an injection context unless an injector is
+ * passed in the options, e.g. when it is created in a service method.
+ *
+ * @param options The interval, timeout and status resolution of the polling.
+ * @param httpClient The HttpClient to poll with. Defaults to the HttpClient of the injector.
+ */
+export const pollLongRunningJob = <TStatus = unknown>(
+    options: PpwJobPollingOptions<TStatus> = {},
+    httpClient?: HttpClient
+): OperatorFunction<HttpResponse<unknown>, AsyncResult<FileDownload | null>> => {
+    const client = httpClient ?? options.injector?.get(HttpClient) ?? inject(HttpClient)
+    const extractors = injectHttpErrorExtractors(options.injector)
+
+    return (source: Observable<HttpResponse<unknown>>) => {
+        const { interval = 2000, timeout, abortSignal } = options
+        const resolveStatus = options.resolveStatus ?? resolveJobStatus
+
+        const downloadFile = (url: string): Observable<AsyncResult<FileDownload | null>> =>
+            client
+                .get(url, { responseType: 'blob', observe: 'response' })
+                .pipe(
+                    map((response) =>
+                        createSuccessAsyncResult<FileDownload | null>(httpResponseToFileDownload(response))
+                    )
+                )
+
+        const pollStatus = (statusUrl: string): Observable<AsyncResult<FileDownload | null>> =>
+            timer(interval, interval).pipe(
+                exhaustMap(() => client.get<TStatus>(statusUrl, { observe: 'response' })),
+                map((response) => resolveStatus(response)),
+                takeWhile((status) => status.state === 'running', true),
+                switchMap((status) => {
+                    switch (status.state) {
+                        case 'running':
+                            return of(createRunningAsyncResult(status.percentage))
+                        case 'completed':
+                            return downloadFile(resolveUrl(status.resultUrl, statusUrl))
+                        case 'failed':
+                            return of(createFailedAsyncResult<FileDownload | null>(new Error(status.message), null))
+                    }
+                }),
+                startWith(createRunningAsyncResult())
+            )
+
+        const job$ = source.pipe(
+            switchMap((response) => {
+                const location = response.headers.get('Location')
+                if (response.status === 202 && location) {
+                    return pollStatus(resolveUrl(location, response.url))
+                }
+
+                return of(
+                    response.body instanceof Blob
+                        ? createSuccessAsyncResult<FileDownload | null>(
+                              httpResponseToFileDownload(response as HttpResponse<Blob>)
+                          )
+                        : createFailedAsyncResult<FileDownload | null>(
+                              new Error('The response does not contain a file or the location of a job.'),
+                              null
+                          )
+                )
+            }),
+            expectAsyncResultHttpError<FileDownload | null>(
+                options.httpErrorCodes ?? DEFAULT_HTTP_ERROR_CODES,
+                null,
+                true,
+                extractors
+            )
+        )
+
+        const timeout$ =
+            timeout === undefined
+                ? NEVER
+                : timer(timeout).pipe(map(() => createFailedAsyncResult<FileDownload | null>(new TimeoutError(), null)))
+
+        return merge(job$, timeout$).pipe(
+            takeWhile((result) => result.status === 'pending', true),
+            takeUntil(abortSignal ? fromEvent(abortSignal, 'abort') : NEVER)
+        )
+    }
+}
+
+const createRunningAsyncResult = (percentage?: number): AsyncResult<FileDownload | null> =>
+    createPendingAsyncResult<FileDownload | null>(
+        null,
+        null,
+        createProgress(percentage ?? 0, percentage === undefined ? null : 100)
+    )
+
+/**
+ * Resolves a relative url of a `Location` header against the url of the response, so the job can be polled on another
+ * origin than the application. The url is kept when the response url is not absolute.
+ */
+const resolveUrl = (url: string, baseUrl: string | null): string => {
+    try {
+        return baseUrl ? new URL(url, baseUrl).toString() : url
+    } catch {
+        return url
+    }
+}
@@ -0,0 +1,86 @@
+import { HttpErrorResponse, HttpEvent, HttpEventType, HttpHeaders, HttpResponse } from '@angular/common/http'
+import { Injector } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import {
+    createProgress,
+    provideHttpErrorExtractors,
+    trackDownloadProgress,
+    trackFileDownloadProgress,
+    trackUploadProgress
+} from '@ppwcode/ng-async'
+import { lastValueFrom, of, throwError, toArray } from 'rxjs'
+
+describe('http progress', () => {
+    it('should calculate the percentage when the total is known', () => {
+        expect(createProgress(50, 200)).toEqual({ loaded: 50, total: 200, percentage: 25 })
+        expect(createProgress(50)).toEqual({ loaded: 50, total: null, percentage: null })
+        expect(createProgress(50, 0)).toEqual({ loaded: 50, total: null, percentage: null })
+    })
+
+    it('should report the download progress as pending results and end with the body', async () => {
+        const events$ = of<Array<HttpEvent<string>>>(
+            { type: HttpEventType.Sent },
+            { type: HttpEventType.DownloadProgress, loaded: 10, total: 40 },
+            { type: HttpEventType.DownloadProgress, loaded: 40, total: 40 },
+            new HttpResponse({ body: 'body' })
+        )
+
+        const results = await lastValueFrom(events$.pipe(trackDownloadProgress(), toArray()))
+
+        expect(results).toEqual([
+            { status: 'pending', entity: null, filters: null, progress: createProgress(0) },
+            { status: 'pending', entity: null, filters: null, progress: createProgress(10, 40) },
+            { status: 'pending', entity: null, filters: null, progress: createProgress(40, 40) },
+            { status: 'success', entity: 'body', filters: null }
+        ])
+    })
+
+    it('should end a file download with a file download', async () => {
+        const blob = new Blob(['content'])
+        const events$ = of<Array<HttpEvent<Blob>>>(
+            { type: HttpEventType.DownloadProgress, loaded: 7 },
+            new HttpResponse({
+                body: blob,
+                headers: new HttpHeaders({ 'Content-Disposition': 'attachment; filename=export.csv' })
+            })
+        )
+
+        const results = await lastValueFrom(events$.pipe(trackFileDownloadProgress(), toArray()))
+
+        expect(results[0].progress).toEqual({ loaded: 7, total: null, percentage: null })
+        expect(results[1].status).toBe('success')
+        expect(results[1].entity?.blob).toBe(blob)
+        expect(results[1].entity?.fileName).toBe('export.csv')
+    })
+
+    it('should report the upload progress and ignore the download progress', async () => {
+        const events$ = of<Array<HttpEvent<number>>>(
+            { type: HttpEventType.UploadProgress, loaded: 5, total: 10 },
+            { type: HttpEventType.DownloadProgress, loaded: 1, total: 1 },
+            new HttpResponse({ body: 42 })
+        )
+
+        const results = await lastValueFrom(events$.pipe(trackUploadProgress(), toArray()))
+
+        expect(results.map((result) => result.progress?.percentage ?? result.entity)).toEqual([50, 42])
+    })
+
+    it('should convert an expected http error to a failed result', async () => {
+        const events$ = throwError(() => new HttpErrorResponse({ status: 409 }))
+
+        const results = await lastValueFrom(events$.pipe(trackUploadProgress([409]), toArray()))
+
+        expect(results).toEqual([{ status: 'failed', entity: null, filters: null, error: new Error('Conflict') }])
+    })
+
+    it('should use the extractors of the injector that is passed outside an injection context', async () => {
+        TestBed.configureTestingModule({ providers: [provideHttpErrorExtractors(() => new Error('PROVIDED'))] })
+        const events$ = throwError(() => new HttpErrorResponse({ status: 409 }))
+
+        const results = await lastValueFrom(
+            events$.pipe(trackDownloadProgress([409], { injector: TestBed.inject(Injector) }), toArray())
+        )
+
+        expect(results.map((result) => result.error?.message)).toEqual(['PROVIDED'])
+    })
+})
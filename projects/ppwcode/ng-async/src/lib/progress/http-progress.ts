@@ -0,0 +1,105 @@
+import { HttpEvent, HttpEventType, HttpResponse } from '@angular/common/http'
+import { Injector } from '@angular/core'
+import { filter, map, Observable, OperatorFunction } from 'rxjs'
+import { DEFAULT_HTTP_ERROR_CODES } from '../constants/error-codes'
+import { expectAsyncResultHttpError } from '../error-handling'
+import { AsyncResult, createPendingAsyncResult, createSuccessAsyncResult } from '../models/async-result'
+import { FileDownload, httpResponseToFileDownload } from '../models/file-download'
+import { createProgress } from '../models/progress'
+import { injectHttpErrorExtractors } from '../options/ppw-http-error-extractors'
+
+type ProgressEventType = HttpEventType.DownloadProgress | HttpEventType.UploadProgress
+
+export interface HttpProgressOptions {
+    /**
+     * The injector to resolve the http error extractors from, when the operator is not created in an injection
+     * context.
+     */
+    injector?: Injector
+}
+
+/**
+ * Converts the events of a request with `reportProgress: true` and `observe: 'events'` to async results.
+ * While the request is executing, pending async results carrying the progress of the given event type are emitted.
+ * The response is mapped to a successful async result, http errors with the given codes to a failed async result.
+ */
+const trackHttpProgress = <TBody, TResult>(
+    progressEventType: ProgressEventType,
+    mapResponse: (response: HttpResponse<TBody>) => TResult,
+    httpErrorCodes: Array<number>,
+    { injector }: HttpProgressOptions
+): OperatorFunction<HttpEvent<TBody>, AsyncResult<TResult | null>> => {
+    const extractors = injectHttpErrorExtractors(injector)
+    return (source: Observable<HttpEvent<TBody>>) =>
+        source.pipe(
+            filter(
+                (event: HttpEvent<TBody>) =>
+                    event.type === HttpEventType.Sent ||
+                    event.type === progressEventType ||
+                    event.type === HttpEventType.Response
+            ),
+            map((event: HttpEvent<TBody>) => {
+                switch (event.type) {
+                    case HttpEventType.Response:
+                        return createSuccessAsyncResult<TResult | null>(mapResponse(event))
+                    case HttpEventType.DownloadProgress:
+                    case HttpEventType.UploadProgress:
+                        return createPendingAsyncResult<TResult | null>(
+                            null,
+                            null,
+                            createProgress(event.loaded, event.total)
+                        )
+                    default:
+                        return createPendingAsyncResult<TResult | null>(null, null, createProgress(0))
+                }
+            }),
+            expectAsyncResultHttpError<TResult | null>(httpErrorCodes, null, true, extractors)
+        )
+}
+
+/**
+ * Reports the download progress of a request as pending async results and emits the body of the response as
+ * successful async result.
+ *
+ * `this.httpClient.get(url, { reportProgress: true, observe: 'events' }).pipe(trackDownloadProgress())`
+ * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
+ * @param options The injector to resolve the http error extractors from.
+ */
+export const trackDownloadProgress = <T>(
+    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
+    options: HttpProgressOptions = {}
+): OperatorFunction<HttpEvent<T>, AsyncResult<T | null>> =>
+    trackHttpProgress<T, T>(HttpEventType.DownloadProgress, (response) => response.body as T, httpErrorCodes, options)
+
+/**
+ * Reports the download progress of a file as pending async results and emits the file as successful async result, so
+ * it can be saved with `saveFileDownload()`.
+ *
+ * `this.httpClient.get(url, { responseType: 'blob', reportProgress: true, observe: 'events' }).pipe(trackFileDownloadProgress())`
+ * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
+ * @param options The injector to resolve the http error extractors from.
+ */
+export const trackFileDownloadProgress = (
+    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
+    options: HttpProgressOptions = {}
+): OperatorFunction<HttpEvent<Blob>, AsyncResult<FileDownload | null>> =>
+    trackHttpProgress<Blob, FileDownload>(
+        HttpEventType.DownloadProgress,
+        httpResponseToFileDownload,
+        httpErrorCodes,
+        options
+    )
+
+/**
+ * Reports the upload progress of a request, e.g. a multipart upload of a `FormData` body, as pending async results and
+ * emits the body of the response as successful async result.
+ *
+ * `this.httpClient.post(url, formData, { reportProgress: true, observe: 'events' }).pipe(trackUploadProgress())`
+ * @param httpErrorCodes The http error codes that should be handled as an error. Defaults to `DEFAULT_HTTP_ERROR_CODES`.
+ * @param options The injector to resolve the http error extractors from.
+ */
+export const trackUploadProgress = <T>(
+    httpErrorCodes: Array<number> = DEFAULT_HTTP_ERROR_CODES,
+    options: HttpProgressOptions = {}
+): OperatorFunction<HttpEvent<T>, AsyncResult<T | null>> =>
+    trackHttpProgress<T, T>(HttpEventType.UploadProgress, (response) => response.body as T, httpErrorCodes, options)
@@ -0,0 +1,122 @@
+import { Injector, signal } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import { AsyncResult, asyncResultResource, createSuccessAsyncResult } from '@ppwcode/ng-async'
+import { Observable, Subject, throwError } from 'rxjs'
+
+describe('asyncResultResource', () => {
+    let request: ReturnType<typeof signal<string | undefined>>
+    let responses: Record<string, Subject<AsyncResult<string, string>>>
+    let loader: jasmine.Spy<(filter: string) => Observable<AsyncResult<string, string>>>
+
+    const createResource = () =>
+        asyncResultResource({
+            request,
+            loader,
+            initialEntity: '',
+            injector: TestBed.inject(Injector)
+        })
+
+    beforeEach(() => {
+        request = signal<string | undefined>(undefined)
+        responses = {}
+        loader = jasmine.createSpy('loader').and.callFake((filter: string) => {
+            responses[filter] = new Subject()
+            return responses[filter]
+        })
+    })
+
+    it('should stay initial while the request is undefined', () => {
+        const resource = createResource()
+        TestBed.flushEffects()
+
+        expect(resource()).toEqual({ status: 'initial', entity: '', filters: null })
+        expect(loader).not.toHaveBeenCalled()
+    })
+
+    it('should be pending while loading and emit the loaded result', () => {
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+
+        expect(resource().status).toBe('pending')
+        expect(resource.pending()).toBeTrue()
+
+        responses['a'].next(createSuccessAsyncResult('result a', 'a'))
+
+        expect(resource()).toEqual(createSuccessAsyncResult('result a', 'a'))
+        expect(resource.pending()).toBeFalse()
+    })
+
+    it('should keep the previous entity while pending and cancel stale requests', () => {
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+        responses['a'].next(createSuccessAsyncResult('result a', 'a'))
+
+        request.set('b')
+        TestBed.flushEffects()
+        expect(resource()).toEqual({ status: 'pending', entity: 'result a', filters: 'a' })
+
+        request.set('c')
+        TestBed.flushEffects()
+        expect(responses['b'].observed).toBeFalse()
+
+        responses['c'].next(createSuccessAsyncResult('result c', 'c'))
+        expect(resource()).toEqual(createSuccessAsyncResult('result c', 'c'))
+    })
+
+    it('should convert an error of the loader to a failed result', () => {
+        loader.and.returnValue(throwError(() => new Error('Oops')))
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+
+        expect(resource().status).toBe('failed')
+        expect(resource().error).toEqual(new Error('Oops'))
+    })
+
+    it('should reload the current request', () => {
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+        responses['a'].next(createSuccessAsyncResult('result a', 'a'))
+
+        resource.reload()
+
+        expect(loader).toHaveBeenCalledTimes(2)
+        expect(resource().status).toBe('pending')
+    })
+
+    it('should go back to the last loaded result when cancelled', () => {
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+        responses['a'].next(createSuccessAsyncResult('result a', 'a'))
+        resource.reload()
+
+        resource.cancel()
+
+        expect(resource()).toEqual(createSuccessAsyncResult('result a', 'a'))
+        expect(responses['a'].observed).toBeFalse()
+    })
+
+    it('should set a local edit as a successful result', () => {
+        const resource = createResource()
+        request.set('a')
+        TestBed.flushEffects()
+        responses['a'].next(createSuccessAsyncResult('result a', 'a'))
+
+        resource.set('edited')
+
+        expect(resource()).toEqual(createSuccessAsyncResult('edited', 'a'))
+    })
+
+    it('should stop loading when destroyed', () => {
+        const resource = createResource()
+        resource.destroy()
+        request.set('a')
+        TestBed.flushEffects()
+
+        expect(loader).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,141 @@
+import {
+    assertInInjectionContext,
+    computed,
+    DestroyRef,
+    effect,
+    inject,
+    Injector,
+    Signal,
+    signal,
+    untracked
+} from '@angular/core'
+import { catchError, Observable, of, Subscription } from 'rxjs'
+import {
+    AsyncResult,
+    createFailedAsyncResult,
+    createInitialAsyncResult,
+    createPendingAsyncResult,
+    createSuccessAsyncResult
+} from '../models/async-result'
+
+export interface AsyncResultResourceOptions<TRequest, TResult, TFilter = null> {
+    /**
+     * The reactive request, e.g. a signal with the filters. The loader is executed again every time the request changes.
+     * When the request is `undefined`, the loader is not executed and the resource stays in its current state.
+     */
+    request: () => TRequest | undefined
+    /**
+     * Loads the async result for the given request, e.g. by piping a service call through `handleAsyncResult`.
+     * Errors thrown by the observable are converted to a failed async result.
+     */
+    loader: (request: TRequest) => Observable<AsyncResult<TResult, TFilter>>
+    /** The entity of the async result before the first result has been loaded. */
+    initialEntity: TResult
+    /** The injector to use when the resource is not created in an injection context. */
+    injector?: Injector
+}
+
+/**
+ * A signal with the async result of the loader, extended with methods to control the resource.
+ * The signal can be passed directly to `<ppw-async-result [asyncResult]="resource()">`.
+ */
+export type AsyncResultResource<TResult, TFilter = null> = Signal<AsyncResult<TResult, TFilter>> & {
+    /** Whether the loader is currently executing. */
+    readonly pending: Signal<boolean>
+    /** Executes the loader again for the current request. */
+    reload: () => void
+    /** Cancels the executing loader, the resource goes back to the last loaded async result. */
+    cancel: () => void
+    /** Sets the entity locally, e.g. after an edit, as a successful async result. An executing loader is cancelled. */
+    set: (entity: TResult) => void
+    /** Stops listening to changes of the request and cancels the executing loader. */
+    destroy: () => void
+}
+
+/**
+ * Creates a signal-based resource that executes the given loader every time the request changes.
+ * The async result of the resource has status "initial" until the request is defined, and status "pending" while the
+ * loader is executing. A pending async result keeps the entity and filters of the previous async result.
+ * A loader that is still executing when the request changes is cancelled, so a stale response never overwrites the
+ * result of the latest request.
+ *
+ * @param options The request, loader and initial entity of the resource.
+ */
+export const asyncResultResource = <TRequest, TResult, TFilter = null>(
+    options: AsyncResultResourceOptions<TRequest, TResult, TFilter>
+): AsyncResultResource<TResult, TFilter> => {
+    if (!options.injector) {
+        assertInInjectionContext(asyncResultResource)
+    }
+    const injector = options.injector ?? inject(Injector)
+
+    const state = signal<AsyncResult<TResult, TFilter>>(createInitialAsyncResult(options.initialEntity))
+    let lastLoadedResult: AsyncResult<TResult, TFilter> = untracked(state)
+    let subscription: Subscription | null = null
+    let destroyed = false
+
+    const cancel = (): void => {
+        subscription?.unsubscribe()
+        subscription = null
+        if (untracked(state).status === 'pending') {
+            state.set(lastLoadedResult)
+        }
+    }
+
+    const setLoadedResult = (result: AsyncResult<TResult, TFilter>): void => {
+        if (result.status !== 'pending') {
+            lastLoadedResult = result
+        }
+        state.set(result)
+    }
+
+    const load = (request: TRequest | undefined): void => {
+        cancel()
+        if (destroyed || request === undefined) {
+            return
+        }
+
+        const previousResult = untracked(state)
+        state.set(createPendingAsyncResult(previousResult.entity, previousResult.filters))
+        subscription = options
+            .loader(request)
+            .pipe(
+                catchError((error: unknown) =>
+                    of(
+                        createFailedAsyncResult<TResult, TFilter>(
+                            error instanceof Error ? error : new Error(String(error)),
+                            previousResult.entity,
+                            previousResult.filters
+                        )
+                    )
+                )
+            )
+            .subscribe((result) => setLoadedResult(result))
+    }
+
+    const requestWatcher = effect(
+        () => {
+            const request = options.request()
+            untracked(() => load(request))
+        },
+        { injector }
+    )
+
+    const destroy = (): void => {
+        destroyed = true
+        requestWatcher.destroy()
+        cancel()
+    }
+    injector.get(DestroyRef).onDestroy(destroy)
+
+    return Object.assign(state.asReadonly(), {
+        pending: computed(() => state().status === 'pending'),
+        reload: () => load(untracked(options.request)),
+        cancel,
+        set: (entity: TResult) => {
+            cancel()
+            setLoadedResult(createSuccessAsyncResult(entity, untracked(state).filters))
+        },
+        destroy
+    })
+}
@@ -0,0 +1,99 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http'
+import { fakeAsync, tick } from '@angular/core/testing'
+import { PpwLogger } from '@ppwcode/ng-common'
+import { DEFAULT_RETRY_POLICY, PpwRetryOptions, retryTransientHttpErrors } from '@ppwcode/ng-async'
+import { defer, Observable, of, throwError } from 'rxjs'
+
+describe('retryTransientHttpErrors', () => {
+    let attempts: number
+    let logger: jasmine.SpyObj<PpwLogger>
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: false }
+
+    const failingCall = (responses: Array<HttpErrorResponse>): Observable<string> =>
+        defer(() => {
+            const response = responses[attempts++]
+            return response ? throwError(() => response) : of('result')
+        })
+
+    const subscribe = (source$: Observable<string>, options: PpwRetryOptions = {}) => {
+        const outcome: { result?: string; error?: unknown } = {}
+        source$.pipe(retryTransientHttpErrors(options, policy, logger)).subscribe({
+            next: (result) => (outcome.result = result),
+            error: (error) => (outcome.error = error)
+        })
+        return outcome
+    }
+
+    beforeEach(() => {
+        attempts = 0
+        logger = jasmine.createSpyObj<PpwLogger>('PpwLogger', ['warn'])
+    })
+
+    it('should retry transient errors with an exponential backoff', fakeAsync(() => {
+        const outcome = subscribe(
+            failingCall([new HttpErrorResponse({ status: 503 }), new HttpErrorResponse({ status: 502 })])
+        )
+        expect(attempts).toBe(1)
+
+        tick(500)
+        expect(attempts).toBe(2)
+        tick(999)
+        expect(attempts).toBe(2)
+        tick(1)
+
+        expect(attempts).toBe(3)
+        expect(outcome.result).toBe('result')
+        expect(logger.warn).toHaveBeenCalledTimes(2)
+    }))
+
+    it('should fail after the maximum number of attempts', fakeAsync(() => {
+        const response = new HttpErrorResponse({ status: 504 })
+        const outcome = subscribe(failingCall([response, response, response]), { maxAttempts: 2 })
+
+        tick(500)
+
+        expect(attempts).toBe(2)
+        expect(outcome.error).toBe(response)
+    }))
+
+    it('should not retry other errors or non-idempotent methods', () => {
+        const badRequest = new HttpErrorResponse({ status: 400 })
+        expect(subscribe(failingCall([badRequest])).error).toBe(badRequest)
+        expect(attempts).toBe(1)
+
+        attempts = 0
+        const unavailable = new HttpErrorResponse({ status: 503 })
+        expect(subscribe(failingCall([unavailable]), { method: 'post' }).error).toBe(unavailable)
+        expect(attempts).toBe(1)
+    })
+
+    it('should honour the Retry-After header', fakeAsync(() => {
+        const tooManyRequests = new HttpErrorResponse({ status: 429, headers: new HttpHeaders({ 'Retry-After': '2' }) })
+        const outcome = subscribe(failingCall([tooManyRequests]))
+
+        tick(1999)
+        expect(attempts).toBe(1)
+        tick(1)
+
+        expect(outcome.result).toBe('result')
+    }))
+
+    it('should not retry when the Retry-After header exceeds the maximum delay', () => {
+        const tooManyRequests = new HttpErrorResponse({
+            status: 429,
+            headers: new HttpHeaders({ 'Retry-After': '60' })
+        })
+
+        expect(subscribe(failingCall([tooManyRequests])).error).toBe(tooManyRequests)
+        expect(attempts).toBe(1)
+    })
+
+    it('should skip a random part of the delay when jitter is enabled', fakeAsync(() => {
+        spyOn(Math, 'random').and.returnValue(0)
+        subscribe(failingCall([new HttpErrorResponse({ status: 503 })]), { jitter: true })
+
+        tick(250)
+
+        expect(attempts).toBe(2)
+    }))
+})
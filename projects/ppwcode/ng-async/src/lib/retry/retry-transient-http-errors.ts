@@ -0,0 +1,82 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { Injector } from '@angular/core'
+import { isScopedLogger, PPW_LOGGER, PpwLogger } from '@ppwcode/ng-common'
+import { MonoTypeOperatorFunction, Observable, retry, throwError, timer } from 'rxjs'
+import { resolveInjector } from '../options/injection-context'
+import { DEFAULT_RETRY_POLICY, injectRetryPolicy, PpwRetryOptions, PpwRetryPolicy } from '../options/ppw-retry-policy'
+
+/**
+ * Retries the source when it fails with a transient HTTP error, e.g. a 503 response of a gateway.
+ * The delay between the attempts grows exponentially, unless the response specifies a `Retry-After` header. Requests
+ * with a method that is not idempotent, like POST, are not retried unless the method is added to the policy.
+ *
+ * When called in an injection context, the provided retry policy is used as default and the attempts are logged
+ * through `PPW_LOGGER`, in the `ng-async` scope.
+ *
+ * @param options The options that differ from the provided policy or from `DEFAULT_RETRY_POLICY`.
+ * @param policy The retry policy to use.
+ * @param logger The logger to log the attempts with.
+ */
+export const retryTransientHttpErrors = <T>(
+    options: PpwRetryOptions = {},
+    policy: PpwRetryPolicy = injectRetryPolicy() ?? DEFAULT_RETRY_POLICY,
+    logger: PpwLogger | null = injectRetryLogger()
+): MonoTypeOperatorFunction<T> => {
+    const { method = 'GET', ...policyOptions } = options
+    const { maxAttempts, statusCodes, methods, initialDelay, maxDelay, jitter } = { ...policy, ...policyOptions }
+    const isIdempotent = methods.some((idempotentMethod) => idempotentMethod.toUpperCase() === method.toUpperCase())
+
+    return retry({
+        count: isIdempotent ? Math.max(maxAttempts - 1, 0) : 0,
+        delay: (error: unknown, retryCount: number): Observable<number> => {
+            if (!(error instanceof HttpErrorResponse) || statusCodes.indexOf(error.status) === -1) {
+                return throwError(() => error)
+            }
+
+            const retryAfter = getRetryAfterDelay(error)
+            if (retryAfter !== null && retryAfter > maxDelay) {
+                logger?.warn(`Not retrying ${method} ${error.url}, the server asked to retry after ${retryAfter}ms.`)
+                return throwError(() => error)
+            }
+
+            const exponentialDelay = Math.min(initialDelay * 2 ** (retryCount - 1), maxDelay)
+            const delay =
+                retryAfter ??
+                (jitter ? exponentialDelay / 2 + (Math.random() * exponentialDelay) / 2 : exponentialDelay)
+            logger?.warn(
+                `Retrying ${method} ${error.url} after status ${error.status} in ${Math.round(delay)}ms (attempt ${
+                    retryCount + 1
+                } of ${maxAttempts}).`
+            )
+            return timer(delay)
+        }
+    })
+}
+
+/**
+ * Gets the delay in milliseconds requested by the `Retry-After` header of the response, which holds either a number of
+ * seconds or an HTTP date.
+ */
+const getRetryAfterDelay = (response: HttpErrorResponse): number | null => {
+    const retryAfter = response.headers?.get('Retry-After')?.trim()
+    if (!retryAfter) {
+        return null
+    }
+
+    if (/^\d+$/.test(retryAfter)) {
+        return Number(retryAfter) * 1000
+    }
+
+    const date = Date.parse(retryAfter)
+    return isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * Gets the logger of the retry attempts from the given injector, or from the current injection context.
+ * Returns `null` when no logger is provided or when it can't be resolved outside an injection context.
+ * @param injector The injector to resolve the logger from when not called in an injection context.
+ */
+export const injectRetryLogger = (injector?: Injector | null): PpwLogger | null => {
+    const logger = resolveInjector('injectRetryLogger', injector)?.get(PPW_LOGGER, null) ?? null
+    return logger && isScopedLogger(logger) ? logger.child('ng-async') : logger
+}
@@ -8,12 +8,33 @@ export * from './lib/async-result/async-result-directives'
 export * from './lib/constants/error-codes'
 export * from './lib/downloads/save-downloaded-file'
 export * from './lib/models/async-result'
+export * from './lib/models/async-result-combinators'
+export * from './lib/models/error-message'
+export * from './lib/models/http-error'
 export * from './lib/models/paged-entities'
 export * from './lib/models/paged-entities.mock'
 export * from './lib/models/paged-async-result'
+export * from './lib/models/paged-request'
+export * from './lib/models/track-by'
 export * from './lib/models/file-download'
+export * from './lib/models/progress'
 export * from './lib/options/ppw-async-result-default-options'
+export * from './lib/options/ppw-async-result-cache-options'
+export * from './lib/options/ppw-http-error-extractors'
+export * from './lib/options/ppw-retry-policy'
 export * from './lib/default-handling'
 export * from './lib/error-handling'
 export * from './lib/error-extractors'
 export * from './lib/api-calls/request-data'
+export * from './lib/api-calls/request-serializer'
+export * from './lib/resources/async-result-resource'
+export * from './lib/cache/async-result-cache'
+export * from './lib/progress/http-progress'
+export * from './lib/polling/poll-long-running-job'
+export * from './lib/paging/accumulate-pages'
+export * from './lib/paging/load-more-sentinel.directive'
+export * from './lib/live/live-updates'
+export * from './lib/mock-backend/in-memory-backend'
+export * from './lib/operations/async-operation-runner'
+export * from './lib/operations/optimistic-update'
+export * from './lib/retry/retry-transient-http-errors'
@@ -1,4 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing'
+import { MatProgressBar } from '@angular/material/progress-bar'
+import { By } from '@angular/platform-browser'
 
 import { LoaderComponent } from './loader.component'
 
@@ -19,4 +21,21 @@ describe('LoaderComponent', () => {
     it('should create', () => {
         expect(component).toBeTruthy()
     })
+
+    it('should show an indeterminate progress bar without progress', () => {
+        fixture.componentRef.setInput('loading', true)
+        fixture.detectChanges()
+
+        expect(fixture.debugElement.query(By.directive(MatProgressBar)).componentInstance.mode).toBe('indeterminate')
+    })
+
+    it('should show a determinate progress bar with progress', () => {
+        fixture.componentRef.setInput('loading', true)
+        fixture.componentRef.setInput('progress', 40)
+        fixture.detectChanges()
+
+        const progressBar: MatProgressBar = fixture.debugElement.query(By.directive(MatProgressBar)).componentInstance
+        expect(progressBar.mode).toBe('determinate')
+        expect(progressBar.value).toBe(40)
+    })
 })
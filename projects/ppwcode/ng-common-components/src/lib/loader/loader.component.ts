@@ -9,4 +9,6 @@ import { MatProgressBar } from '@angular/material/progress-bar'
 })
 export class LoaderComponent {
     public loading: InputSignal<boolean | null> = input<boolean | null>(false)
+    /** The progress percentage (0-100) of the loading. When `null`, an indeterminate progress bar is shown. */
+    public progress: InputSignal<number | null> = input<number | null>(null)
 }
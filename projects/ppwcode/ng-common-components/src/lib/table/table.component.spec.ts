@@ -181,7 +181,7 @@ export function getDateFnsFormatter(dateFormat: string): (value: Date) => string
 
 @Component({
     template: `
-        <ppw-table [data]="data" [trackBy]="trackBy">
+        <ppw-table [data]="data" [trackBy]="trackBy" [highlightedRows]="highlightedRows">
             @for (column of columns; track column) {
                 <ppw-column
                     [name]="column.name"
@@ -210,6 +210,7 @@ class TestTableComponent {
     ]
     public data: Array<PeriodicElement> = MOCK_ELEMENT_DATA
     public trackBy = (index: number, record: PeriodicElement) => record.position
+    public highlightedRows: Array<number> = []
 }
 
 describe('TableComponent', () => {
@@ -606,4 +607,14 @@ describe('TableComponent', () => {
         expect(tableComponent.columnNames()).toEqual(['elementName', 'symbol', 'fnsDate'])
         expect(tableComponent.dataSource().data[3].mappedValues['fnsDate']).toBe('01-08-2023')
     })
+
+    it('should highlight the rows with the given trackBy values', () => {
+        fixture.componentInstance.highlightedRows = [2, 4]
+        fixture.detectChanges()
+
+        const rows: Array<HTMLElement> = Array.from(fixture.nativeElement.querySelectorAll('tr.mat-mdc-row'))
+        expect(rows.map((row) => row.classList.contains('ppw-table-row-highlighted'))).toEqual(
+            MOCK_ELEMENT_DATA.map((element) => element.position === 2 || element.position === 4)
+        )
+    })
 })
@@ -78,6 +78,10 @@ export class TableComponent<TRecord> extends mixinHandleSubscriptions() implemen
     public options: InputSignal<PpwTableOptions<TRecord> | undefined> = input<PpwTableOptions<TRecord> | undefined>(
         undefined
     )
+    /** The trackBy values of the rows to highlight, e.g. because they were changed by a live update. */
+    public highlightedRows: InputSignal<ReadonlySet<unknown> | ReadonlyArray<unknown>> = input<
+        ReadonlySet<unknown> | ReadonlyArray<unknown>
+    >([])
 
     // Outputs
     public selectionChanged: OutputEmitterRef<TableRecord<TRecord>[]> = output<TableRecord<TRecord>[]>()
@@ -192,6 +196,13 @@ export class TableComponent<TRecord> extends mixinHandleSubscriptions() implemen
         return item.trackByValue
     }
 
+    #highlightedRowValues: Signal<ReadonlySet<unknown>> = computed(() => new Set(this.highlightedRows()))
+
+    /** Whether the given row is in the highlighted rows. */
+    public isRowHighlighted(row: TableRecord<TRecord>): boolean {
+        return this.#highlightedRowValues().has(row.trackByValue)
+    }
+
     /**
      * Maps the given items into a local key-value pair to be used within
      * the template. The original record is left intact so that it can still
@@ -0,0 +1,190 @@
+import { HttpClient, provideHttpClient, withInterceptors, withInterceptorsFromDi } from '@angular/common/http'
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
+import { Component } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import { provideRouter, Router } from '@angular/router'
+import {
+    BreadcrumbTrail,
+    breadcrumbHttpInterceptor,
+    InMemoryErrorReporter,
+    PpwBreadcrumb,
+    PpwErrorReportingOptions,
+    provideErrorReporting
+} from '@ppwcode/ng-common'
+
+@Component({ template: '' })
+class EmptyComponent {}
+
+describe('breadcrumb recorders', () => {
+    const breadcrumbs = (): Array<Omit<PpwBreadcrumb, 'timestamp'>> =>
+        TestBed.inject(BreadcrumbTrail)
+            .breadcrumbs()
+            .map(({ type, message }) => ({ type, message }))
+
+    describe('provideErrorReporting', () => {
+        beforeEach(() => {
+            TestBed.configureTestingModule({
+                providers: [
+                    provideErrorReporting({ reporter: new InMemoryErrorReporter() }),
+                    provideRouter([{ path: 'players', component: EmptyComponent }]),
+                    provideHttpClient(withInterceptorsFromDi()),
+                    provideHttpClientTesting()
+                ]
+            })
+        })
+
+        it('should record the navigations', async () => {
+            await TestBed.inject(Router).navigateByUrl('/players')
+
+            expect(breadcrumbs()).toEqual([{ type: 'navigation', message: '/players' }])
+        })
+
+        it('should record the clicks', () => {
+            TestBed.inject(BreadcrumbTrail)
+            const button = document.createElement('button')
+            button.id = 'save'
+            button.innerHTML = '<span>Save   player</span>'
+            document.body.appendChild(button)
+
+            button.querySelector('span')?.click()
+            button.remove()
+
+            expect(breadcrumbs()).toEqual([{ type: 'click', message: 'button#save "Save player"' }])
+        })
+
+        it('should record the http calls', () => {
+            const httpClient = TestBed.inject(HttpClient)
+            httpClient.get('/api/players').subscribe()
+            httpClient.get('/api/teams').subscribe({ error: () => undefined })
+
+            const httpTestingController = TestBed.inject(HttpTestingController)
+            httpTestingController.expectOne('/api/players').flush([])
+            httpTestingController.expectOne('/api/teams').flush(null, { status: 404, statusText: 'Not Found' })
+
+            expect(breadcrumbs()).toEqual([
+                { type: 'http', message: 'GET /api/players 200' },
+                { type: 'http', message: 'GET /api/teams 404' }
+            ])
+            expect(TestBed.inject(BreadcrumbTrail).breadcrumbs()[0].data).toEqual({
+                method: 'GET',
+                url: '/api/players',
+                status: 200,
+                duration: jasmine.any(Number)
+            })
+        })
+    })
+
+    it('should record the http calls with the functional interceptor', () => {
+        TestBed.configureTestingModule({
+            providers: [provideHttpClient(withInterceptors([breadcrumbHttpInterceptor])), provideHttpClientTesting()]
+        })
+
+        TestBed.inject(HttpClient).post('/api/players', {}).subscribe()
+        TestBed.inject(HttpTestingController)
+            .expectOne('/api/players')
+            .flush({}, { status: 201, statusText: 'Created' })
+
+        expect(breadcrumbs()).toEqual([{ type: 'http', message: 'POST /api/players 201' }])
+    })
+
+    describe('privacy', () => {
+        const setup = (options: Omit<PpwErrorReportingOptions, 'breadcrumbs'> = {}): void => {
+            TestBed.configureTestingModule({
+                providers: [
+                    provideErrorReporting({ reporter: new InMemoryErrorReporter(), ...options }),
+                    provideRouter([{ path: 'players', component: EmptyComponent }]),
+                    provideHttpClient(withInterceptorsFromDi()),
+                    provideHttpClientTesting()
+                ]
+            })
+        }
+
+        const recordSearch = async (): Promise<void> => {
+            await TestBed.inject(Router).navigateByUrl('/players?name=Jane')
+            TestBed.inject(HttpClient)
+                .get('/api/players', { params: { name: 'Jane' } })
+                .subscribe()
+            TestBed.inject(HttpTestingController).expectOne('/api/players?name=Jane').flush([])
+        }
+
+        it('should strip the query parameters by default', async () => {
+            setup()
+
+            await recordSearch()
+
+            expect(breadcrumbs()).toEqual([
+                { type: 'navigation', message: '/players' },
+                { type: 'http', message: 'GET /api/players 200' }
+            ])
+            expect(TestBed.inject(BreadcrumbTrail).breadcrumbs()[1].data?.['url']).toBe('/api/players')
+        })
+
+        it('should record the query parameters when enabled', async () => {
+            setup({ recordQueryParams: true })
+
+            await recordSearch()
+
+            expect(breadcrumbs()).toEqual([
+                { type: 'navigation', message: '/players?name=Jane' },
+                { type: 'http', message: 'GET /api/players?name=Jane 200' }
+            ])
+        })
+
+        it('should never record the text of form fields', () => {
+            setup()
+            TestBed.inject(BreadcrumbTrail)
+            const select = document.createElement('select')
+            select.innerHTML = '<option>Jane Doe</option><option>John Doe</option>'
+            document.body.appendChild(select)
+
+            select.click()
+            select.remove()
+
+            expect(breadcrumbs()).toEqual([{ type: 'click', message: 'select' }])
+        })
+
+        it('should not record the text of the clicked elements when disabled', () => {
+            setup({ recordClickText: false })
+            TestBed.inject(BreadcrumbTrail)
+            const button = document.createElement('button')
+            button.textContent = 'Delete Jane Doe'
+            document.body.appendChild(button)
+
+            button.click()
+            button.remove()
+
+            expect(breadcrumbs()).toEqual([{ type: 'click', message: 'button' }])
+        })
+
+        it('should sanitize the breadcrumbs', () => {
+            setup({
+                sanitizeBreadcrumb: (breadcrumb) =>
+                    breadcrumb.type === 'click'
+                        ? null
+                        : { ...breadcrumb, message: breadcrumb.message.replace(/\d+/g, ':id') }
+            })
+
+            TestBed.inject(BreadcrumbTrail).add('navigation', '/players/42')
+            TestBed.inject(BreadcrumbTrail).add('click', 'button "Delete"')
+
+            expect(breadcrumbs()).toEqual([{ type: 'navigation', message: '/players/:id' }])
+        })
+    })
+
+    it('should not record the breadcrumbs that are disabled', async () => {
+        TestBed.configureTestingModule({
+            providers: [
+                provideErrorReporting({
+                    reporter: new InMemoryErrorReporter(),
+                    breadcrumbs: { navigation: false, click: false }
+                }),
+                provideRouter([{ path: 'players', component: EmptyComponent }])
+            ]
+        })
+
+        await TestBed.inject(Router).navigateByUrl('/players')
+        document.body.click()
+
+        expect(breadcrumbs()).toEqual([])
+    })
+})
@@ -0,0 +1,115 @@
+import { DOCUMENT } from '@angular/common'
+import {
+    HttpErrorResponse,
+    HttpEvent,
+    HttpHandler,
+    HttpInterceptor,
+    HttpInterceptorFn,
+    HttpRequest,
+    HttpResponse
+} from '@angular/common/http'
+import { DestroyRef, inject, Injectable } from '@angular/core'
+import { NavigationEnd, Router } from '@angular/router'
+import { filter, Observable, tap } from 'rxjs'
+import { BreadcrumbTrail } from './breadcrumb-trail'
+import { PPW_ERROR_REPORTING_OPTIONS, PpwBreadcrumbType, PpwErrorReportingOptions } from './error-report'
+import { sanitizeUrl } from './sanitize-url'
+
+/**
+ * Records the HTTP calls as breadcrumbs, for applications that use `withInterceptors`. The query parameters are only
+ * recorded when `recordQueryParams` is set in the options.
+ */
+export const breadcrumbHttpInterceptor: HttpInterceptorFn = (request, next) =>
+    recordHttpCall(inject(BreadcrumbTrail), injectErrorReportingOptions(), request, next(request))
+
+/**
+ * Records the HTTP calls as breadcrumbs, for applications that use `withInterceptorsFromDi()`. The query parameters
+ * are only recorded when `recordQueryParams` is set in the options.
+ */
+@Injectable()
+export class BreadcrumbHttpInterceptor implements HttpInterceptor {
+    #breadcrumbTrail = inject(BreadcrumbTrail)
+    #options = injectErrorReportingOptions()
+
+    public intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+        return recordHttpCall(this.#breadcrumbTrail, this.#options, request, next.handle(request))
+    }
+}
+
+/**
+ * Records the router navigations and the clicks of the user as breadcrumbs, until the injector is destroyed. The query
+ * parameters of the navigations and the text of the clicked elements are recorded according to the options.
+ * Must be called in an injection context.
+ * @param types The types of breadcrumbs to record, all of them by default.
+ */
+export const recordNavigationAndClickBreadcrumbs = (types: Partial<Record<PpwBreadcrumbType, boolean>> = {}): void => {
+    const breadcrumbTrail = inject(BreadcrumbTrail)
+    const destroyRef = inject(DestroyRef)
+    const options = injectErrorReportingOptions()
+
+    const router = inject(Router, { optional: true })
+    if (types.navigation !== false && router) {
+        const subscription = router.events
+            .pipe(filter((event) => event instanceof NavigationEnd))
+            .subscribe((event) => breadcrumbTrail.add('navigation', sanitizeUrl(event.urlAfterRedirects, options)))
+        destroyRef.onDestroy(() => subscription.unsubscribe())
+    }
+
+    if (types.click !== false) {
+        const document = inject(DOCUMENT)
+        const listener = (event: Event): void =>
+            breadcrumbTrail.add('click', describeClickTarget(event.target, options.recordClickText !== false))
+        // The capture phase records clicks on elements that stop the propagation of the event as well.
+        document.addEventListener('click', listener, true)
+        destroyRef.onDestroy(() => document.removeEventListener('click', listener, true))
+    }
+}
+
+const injectErrorReportingOptions = (): PpwErrorReportingOptions =>
+    inject(PPW_ERROR_REPORTING_OPTIONS, { optional: true }) ?? {}
+
+const recordHttpCall = (
+    breadcrumbTrail: BreadcrumbTrail,
+    options: PpwErrorReportingOptions,
+    request: HttpRequest<unknown>,
+    response$: Observable<HttpEvent<unknown>>
+): Observable<HttpEvent<unknown>> => {
+    const startedAt = Date.now()
+    const url = sanitizeUrl(request.urlWithParams, options)
+    const add = (status: number): void =>
+        breadcrumbTrail.add('http', `${request.method} ${url} ${status}`, {
+            method: request.method,
+            url,
+            status,
+            duration: Date.now() - startedAt
+        })
+
+    return response$.pipe(
+        tap({
+            next: (event) => {
+                if (event instanceof HttpResponse) {
+                    add(event.status)
+                }
+            },
+            error: (error: unknown) => add(error instanceof HttpErrorResponse ? error.status : 0)
+        })
+    )
+}
+
+/**
+ * Describes the clicked element by its tag, id and text. The text of form fields, e.g. the options of a select or the
+ * value of a textarea, is never recorded.
+ */
+const describeClickTarget = (target: EventTarget | null, recordText: boolean): string => {
+    if (!(target instanceof Element)) {
+        return 'unknown'
+    }
+
+    const element = target.closest('a, button, input, select, textarea, [role="button"]') ?? target
+    const id = element.id ? `#${element.id}` : ''
+    const text =
+        recordText && !element.matches('input, select, textarea')
+            ? element.textContent?.trim().replace(/\s+/g, ' ').slice(0, 50)
+            : ''
+    return `${element.tagName.toLowerCase()}${id}${text ? ` "${text}"` : ''}`
+}
@@ -0,0 +1,45 @@
+import { inject, Injectable } from '@angular/core'
+import { RingBuffer } from '../utilities/ring-buffer'
+import { PPW_ERROR_REPORTING_OPTIONS, PpwBreadcrumb, PpwBreadcrumbType } from './error-report'
+
+const DEFAULT_MAX_BREADCRUMBS = 50
+
+/**
+ * Keeps the most recent breadcrumbs, which are added to the error reports. The navigations, HTTP calls and clicks are
+ * recorded by `provideErrorReporting`, other events can be added by the application.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class BreadcrumbTrail {
+    #options = inject(PPW_ERROR_REPORTING_OPTIONS, { optional: true }) ?? {}
+    #buffer = new RingBuffer<PpwBreadcrumb>(this.#options.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS)
+
+    /**
+     * Adds a breadcrumb to the trail, after it is passed through the `sanitizeBreadcrumb` of the options.
+     * @param type The type of the event.
+     * @param message The description of the event.
+     * @param data Extra information about the event.
+     */
+    public add(type: PpwBreadcrumbType, message: string, data?: Record<string, unknown>): void {
+        const breadcrumb: PpwBreadcrumb = {
+            type,
+            message,
+            timestamp: new Date().toISOString(),
+            ...(data ? { data } : {})
+        }
+        const sanitized = this.#options.sanitizeBreadcrumb ? this.#options.sanitizeBreadcrumb(breadcrumb) : breadcrumb
+        if (sanitized) {
+            this.#buffer.push(sanitized)
+        }
+    }
+
+    /** Returns the breadcrumbs, from the oldest to the newest. */
+    public breadcrumbs(): Array<PpwBreadcrumb> {
+        return this.#buffer.toArray()
+    }
+
+    public clear(): void {
+        this.#buffer.clear()
+    }
+}
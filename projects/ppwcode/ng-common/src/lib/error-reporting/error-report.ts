@@ -0,0 +1,59 @@
+import { InjectionToken } from '@angular/core'
+
+export type PpwBreadcrumbType = 'navigation' | 'http' | 'click'
+
+/** An event that happened before an error, to reconstruct what the user was doing. */
+export interface PpwBreadcrumb {
+    type: PpwBreadcrumbType
+    message: string
+    timestamp: string
+    data?: Record<string, unknown>
+}
+
+/** The report of an error, enriched with information about the application and the situation of the user. */
+export interface PpwErrorReport {
+    message: string
+    stack: string | null
+    /** The url of the page on which the error occurred. */
+    url: string
+    timestamp: string
+    appVersion: string | null
+    userAgent: string
+    /** The most recent navigations, HTTP calls and clicks before the error, from the oldest to the newest. */
+    breadcrumbs: Array<PpwBreadcrumb>
+}
+
+/** Sends error reports to a destination, e.g. the back-end. */
+export interface PpwErrorReporter {
+    report(report: PpwErrorReport): void
+}
+
+export interface PpwErrorReportingOptions {
+    /** The version of the application, added to every report. */
+    appVersion?: string
+    /** The maximum number of breadcrumbs in a report. Defaults to 50. */
+    maxBreadcrumbs?: number
+    /** The time in milliseconds in which the same error is reported only once. Defaults to 60000. */
+    dedupInterval?: number
+    /** The maximum number of reports per minute, further errors are not reported. Defaults to 10. */
+    maxReportsPerMinute?: number
+    /** The events that are recorded as breadcrumbs. All of them are recorded by default. */
+    breadcrumbs?: Partial<Record<PpwBreadcrumbType, boolean>>
+    /**
+     * Whether the query parameters of the urls are recorded: the url of the page and of the navigation and HTTP
+     * breadcrumbs, and the request url in the message of HTTP errors. They often contain search terms or personal data,
+     * so they are stripped by default.
+     */
+    recordQueryParams?: boolean
+    /** Whether the text of the clicked elements is recorded. Defaults to true. The text of form fields is never recorded. */
+    recordClickText?: boolean
+    /**
+     * Returns the breadcrumb as it is added to the trail, e.g. with sensitive data removed, or `null` to drop it.
+     * Applies to the breadcrumbs that are added by the application as well.
+     */
+    sanitizeBreadcrumb?: (breadcrumb: PpwBreadcrumb) => PpwBreadcrumb | null
+}
+
+export const PPW_ERROR_REPORTER = new InjectionToken<PpwErrorReporter>('PpwErrorReporter')
+
+export const PPW_ERROR_REPORTING_OPTIONS = new InjectionToken<PpwErrorReportingOptions>('PpwErrorReportingOptions')
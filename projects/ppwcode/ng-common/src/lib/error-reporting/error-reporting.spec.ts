@@ -0,0 +1,124 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { TestBed } from '@angular/core/testing'
+import {
+    BreadcrumbTrail,
+    ErrorReporting,
+    InMemoryErrorReporter,
+    PPW_ERROR_REPORTER,
+    PPW_ERROR_REPORTING_OPTIONS,
+    PpwErrorReportingOptions
+} from '@ppwcode/ng-common'
+
+describe('ErrorReporting', () => {
+    let reporter: InMemoryErrorReporter
+    let errorReporting: ErrorReporting
+
+    const setup = (options: PpwErrorReportingOptions = {}): void => {
+        reporter = new InMemoryErrorReporter()
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: PPW_ERROR_REPORTER, useValue: reporter },
+                { provide: PPW_ERROR_REPORTING_OPTIONS, useValue: { appVersion: '1.2.0', ...options } }
+            ]
+        })
+        errorReporting = TestBed.inject(ErrorReporting)
+    }
+
+    let now: number
+
+    beforeEach(() => {
+        now = Date.UTC(2024, 0, 1)
+        spyOn(Date, 'now').and.callFake(() => now)
+    })
+
+    it('should report the error enriched with the application info and the breadcrumbs', () => {
+        setup()
+        TestBed.inject(BreadcrumbTrail).add('click', 'button "Save"')
+        const error = new Error('Something went wrong')
+
+        errorReporting.report(error)
+
+        expect(reporter.reports).toEqual([
+            {
+                message: 'Something went wrong',
+                stack: error.stack ?? null,
+                url: window.location.href,
+                timestamp: '2024-01-01T00:00:00.000Z',
+                appVersion: '1.2.0',
+                userAgent: navigator.userAgent,
+                breadcrumbs: [{ type: 'click', message: 'button "Save"', timestamp: jasmine.any(String) }]
+            }
+        ])
+    })
+
+    it('should report http errors and strings', () => {
+        setup()
+
+        errorReporting.report(new HttpErrorResponse({ status: 500, url: '/api/players' }))
+        errorReporting.report('Unexpected state')
+
+        expect(reporter.reports.map((report) => [report.message, report.stack])).toEqual([
+            ['Http failure response for /api/players: 500 undefined', null],
+            ['Unexpected state', null]
+        ])
+    })
+
+    it('should strip the query parameters of the page url and the request url', () => {
+        const href = window.location.href
+        window.history.pushState(null, '', '/players?name=Jane')
+        setup()
+
+        errorReporting.report(new HttpErrorResponse({ status: 500, url: '/api/players?name=Jane' }))
+        window.history.pushState(null, '', href)
+
+        expect(reporter.reports[0].url).toBe(`${window.location.origin}/players`)
+        expect(reporter.reports[0].message).toBe('Http failure response for /api/players: 500 undefined')
+    })
+
+    it('should keep the query parameters when they are recorded', () => {
+        const href = window.location.href
+        window.history.pushState(null, '', '/players?name=Jane')
+        setup({ recordQueryParams: true })
+
+        errorReporting.report(new HttpErrorResponse({ status: 500, url: '/api/players?name=Jane' }))
+        window.history.pushState(null, '', href)
+
+        expect(reporter.reports[0].url).toBe(`${window.location.origin}/players?name=Jane`)
+        expect(reporter.reports[0].message).toBe('Http failure response for /api/players?name=Jane: 500 undefined')
+    })
+
+    it('should report the same error once per dedup interval', () => {
+        setup({ dedupInterval: 1000 })
+        const error = new Error('Something went wrong')
+
+        expect(errorReporting.report(error)).not.toBeNull()
+        expect(errorReporting.report(error)).toBeNull()
+        now += 1000
+        expect(errorReporting.report(error)).not.toBeNull()
+
+        expect(reporter.reports.length).toBe(2)
+    })
+
+    it('should limit the number of reports per minute', () => {
+        setup({ maxReportsPerMinute: 2 })
+
+        errorReporting.report('first')
+        errorReporting.report('second')
+        errorReporting.report('third')
+        now += 60 * 1000
+        errorReporting.report('fourth')
+
+        expect(reporter.reports.map((report) => report.message)).toEqual(['first', 'second', 'fourth'])
+    })
+
+    it('should not fail when the reporter fails', () => {
+        setup()
+        spyOn(reporter, 'report').and.throwError('Reporter failed')
+
+        expect(() => errorReporting.report('error')).not.toThrow()
+    })
+
+    it('should not report errors when no reporter is provided', () => {
+        expect(TestBed.inject(ErrorReporting).report(new Error('error'))).toBeNull()
+    })
+})
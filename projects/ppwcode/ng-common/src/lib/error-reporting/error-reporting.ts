@@ -0,0 +1,95 @@
+import { DOCUMENT } from '@angular/common'
+import { HttpErrorResponse } from '@angular/common/http'
+import { inject, Injectable } from '@angular/core'
+import { BreadcrumbTrail } from './breadcrumb-trail'
+import { PPW_ERROR_REPORTER, PPW_ERROR_REPORTING_OPTIONS, PpwErrorReport } from './error-report'
+import { sanitizeUrl } from './sanitize-url'
+
+const DEFAULT_DEDUP_INTERVAL = 60 * 1000
+const DEFAULT_MAX_REPORTS_PER_MINUTE = 10
+const RATE_LIMIT_INTERVAL = 60 * 1000
+
+/**
+ * Reports errors to the provided `PPW_ERROR_REPORTER`, enriched with information about the application and the
+ * breadcrumbs of the user. The same error is reported once per dedup interval and the number of reports per minute is
+ * limited, so an error in a loop doesn't flood the back-end. Errors are not reported when no reporter is provided.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ErrorReporting {
+    #reporter = inject(PPW_ERROR_REPORTER, { optional: true })
+    #options = inject(PPW_ERROR_REPORTING_OPTIONS, { optional: true }) ?? {}
+    #breadcrumbTrail = inject(BreadcrumbTrail)
+    #document = inject(DOCUMENT)
+    #lastReportedAt = new Map<string, number>()
+    #reportTimestamps: Array<number> = []
+
+    /**
+     * Reports the error, unless it was reported within the dedup interval or the rate limit is reached.
+     * @param error The error to report.
+     * @returns The report that was sent to the reporter, or `null` when the error was not reported.
+     */
+    public report(error: unknown): PpwErrorReport | null {
+        if (!this.#reporter) {
+            return null
+        }
+
+        const now = Date.now()
+        const report = this.#createReport(error, now)
+        const fingerprint = `${report.message}\n${report.stack ?? ''}`
+        if (this.#isDuplicate(fingerprint, now) || this.#isRateLimited(now)) {
+            return null
+        }
+
+        this.#lastReportedAt.set(fingerprint, now)
+        this.#reportTimestamps.push(now)
+        try {
+            this.#reporter.report(report)
+        } catch {
+            // A failing reporter must not break the handling of the error that is reported.
+        }
+        return report
+    }
+
+    #createReport(error: unknown, now: number): PpwErrorReport {
+        const errorInstance =
+            error instanceof HttpErrorResponse && error.error instanceof Error
+                ? error.error
+                : error instanceof Error
+                  ? error
+                  : null
+        return {
+            message: this.#createMessage(error),
+            stack: errorInstance?.stack ?? null,
+            url: sanitizeUrl(this.#document.location?.href ?? '', this.#options),
+            timestamp: new Date(now).toISOString(),
+            appVersion: this.#options.appVersion ?? null,
+            userAgent: this.#document.defaultView?.navigator.userAgent ?? '',
+            breadcrumbs: this.#breadcrumbTrail.breadcrumbs()
+        }
+    }
+
+    /** The message of an HttpErrorResponse contains the url of the request, which is sanitized like the breadcrumbs. */
+    #createMessage(error: unknown): string {
+        if (error instanceof HttpErrorResponse) {
+            return error.url ? error.message.replace(error.url, sanitizeUrl(error.url, this.#options)) : error.message
+        }
+        return error instanceof Error ? error.message : String(error ?? '')
+    }
+
+    #isDuplicate(fingerprint: string, now: number): boolean {
+        const dedupInterval = this.#options.dedupInterval ?? DEFAULT_DEDUP_INTERVAL
+        this.#lastReportedAt.forEach((reportedAt, key) => {
+            if (now - reportedAt >= dedupInterval) {
+                this.#lastReportedAt.delete(key)
+            }
+        })
+        return this.#lastReportedAt.has(fingerprint)
+    }
+
+    #isRateLimited(now: number): boolean {
+        this.#reportTimestamps = this.#reportTimestamps.filter((timestamp) => now - timestamp < RATE_LIMIT_INTERVAL)
+        return this.#reportTimestamps.length >= (this.#options.maxReportsPerMinute ?? DEFAULT_MAX_REPORTS_PER_MINUTE)
+    }
+}
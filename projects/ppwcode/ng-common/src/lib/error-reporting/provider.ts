@@ -0,0 +1,33 @@
+import { HTTP_INTERCEPTORS } from '@angular/common/http'
+import { EnvironmentProviders, Provider, provideEnvironmentInitializer } from '@angular/core'
+import { BreadcrumbHttpInterceptor, recordNavigationAndClickBreadcrumbs } from './breadcrumb-recorders'
+import {
+    PPW_ERROR_REPORTER,
+    PPW_ERROR_REPORTING_OPTIONS,
+    PpwErrorReporter,
+    PpwErrorReportingOptions
+} from './error-report'
+
+/**
+ * Provides the reporter the `GlobalErrorHandler` reports the errors to, and records the navigations, HTTP calls and
+ * clicks as breadcrumbs. The HTTP calls are recorded by an interceptor for `withInterceptorsFromDi()`, applications
+ * that use `withInterceptors` add the `breadcrumbHttpInterceptor` themselves.
+ *
+ * `provideErrorReporting({ reporter: () => new HttpErrorReporter({ url: '/api/errors' }), appVersion: '1.2.0' })`
+ * @param options The reporter, or a function that creates it in an injection context, and the reporting options.
+ */
+export const provideErrorReporting = ({
+    reporter,
+    ...options
+}: PpwErrorReportingOptions & {
+    reporter: PpwErrorReporter | (() => PpwErrorReporter)
+}): Array<Provider | EnvironmentProviders> => [
+    { provide: PPW_ERROR_REPORTING_OPTIONS, useValue: options },
+    typeof reporter === 'function'
+        ? { provide: PPW_ERROR_REPORTER, useFactory: reporter }
+        : { provide: PPW_ERROR_REPORTER, useValue: reporter },
+    ...(options.breadcrumbs?.http === false
+        ? []
+        : [{ provide: HTTP_INTERCEPTORS, useClass: BreadcrumbHttpInterceptor, multi: true }]),
+    provideEnvironmentInitializer(() => recordNavigationAndClickBreadcrumbs(options.breadcrumbs))
+]
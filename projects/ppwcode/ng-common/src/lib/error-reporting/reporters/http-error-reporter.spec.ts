@@ -0,0 +1,44 @@
+import { provideHttpClient } from '@angular/common/http'
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
+import { TestBed } from '@angular/core/testing'
+import { HttpErrorReporter, PpwErrorReport } from '@ppwcode/ng-common'
+
+describe('HttpErrorReporter', () => {
+    const report: PpwErrorReport = {
+        message: 'Something went wrong',
+        stack: null,
+        url: 'http://localhost/players',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        appVersion: '1.2.0',
+        userAgent: 'Chrome',
+        breadcrumbs: []
+    }
+    let httpTestingController: HttpTestingController
+    let reporter: HttpErrorReporter
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ providers: [provideHttpClient(), provideHttpClientTesting()] })
+        httpTestingController = TestBed.inject(HttpTestingController)
+        reporter = TestBed.runInInjectionContext(() => new HttpErrorReporter({ url: '/api/errors' }))
+    })
+
+    afterEach(() => httpTestingController.verify())
+
+    it('should post the report', () => {
+        reporter.report(report)
+
+        const request = httpTestingController.expectOne('/api/errors')
+        expect(request.request.method).toBe('POST')
+        expect(request.request.body).toEqual(report)
+    })
+
+    it('should ignore a report that fails to post', () => {
+        reporter.report(report)
+
+        expect(() =>
+            httpTestingController
+                .expectOne('/api/errors')
+                .flush(null, { status: 503, statusText: 'Service Unavailable' })
+        ).not.toThrow()
+    })
+})
@@ -0,0 +1,23 @@
+import { HttpClient } from '@angular/common/http'
+import { inject } from '@angular/core'
+import { PpwErrorReport, PpwErrorReporter } from '../error-report'
+
+export interface HttpErrorReporterOptions {
+    /** The url the reports are posted to. */
+    url: string
+}
+
+/**
+ * Posts the error reports to the back-end. A report that fails to post is dropped: reporting the failure could cause
+ * an endless loop of reports.
+ */
+export class HttpErrorReporter implements PpwErrorReporter {
+    constructor(
+        private readonly options: HttpErrorReporterOptions,
+        private readonly httpClient: HttpClient = inject(HttpClient)
+    ) {}
+
+    public report(report: PpwErrorReport): void {
+        this.httpClient.post(this.options.url, report).subscribe({ error: () => undefined })
+    }
+}
@@ -0,0 +1,14 @@
+import { PpwErrorReport, PpwErrorReporter } from '../error-report'
+
+/** Keeps the error reports in memory, e.g. to verify the error reporting in unit tests. */
+export class InMemoryErrorReporter implements PpwErrorReporter {
+    public readonly reports: Array<PpwErrorReport> = []
+
+    public report(report: PpwErrorReport): void {
+        this.reports.push(report)
+    }
+
+    public clear(): void {
+        this.reports.splice(0, this.reports.length)
+    }
+}
@@ -0,0 +1,10 @@
+import { PpwErrorReportingOptions } from './error-report'
+
+/**
+ * Removes the query parameters from the url, unless they are recorded according to the options. They often contain
+ * search terms or personal data.
+ * @param url The url of a navigation, an HTTP call or the page.
+ * @param options The error reporting options.
+ */
+export const sanitizeUrl = (url: string, options: PpwErrorReportingOptions): string =>
+    options.recordQueryParams ? url : url.split('?')[0]
@@ -0,0 +1,37 @@
+import { TestBed } from '@angular/core/testing'
+import { MatDialog } from '@angular/material/dialog'
+import { ErrorReporting, GlobalErrorHandler } from '@ppwcode/ng-common'
+import { NEVER } from 'rxjs'
+
+describe('GlobalErrorHandler', () => {
+    let errorHandler: GlobalErrorHandler
+    let dialog: jasmine.SpyObj<MatDialog>
+    let errors: Array<unknown>
+
+    beforeEach(() => {
+        errors = []
+        dialog = jasmine.createSpyObj<MatDialog>('MatDialog', ['open'])
+        dialog.open.and.returnValue({ componentInstance: { errors }, afterClosed: () => NEVER } as never)
+
+        TestBed.configureTestingModule({
+            providers: [GlobalErrorHandler, { provide: MatDialog, useValue: dialog }]
+        })
+        errorHandler = TestBed.inject(GlobalErrorHandler)
+        errorHandler.preventConsoleErrorLogging = true
+    })
+
+    it('should show the error in the dialog', () => {
+        errorHandler.handleError(new Error('Something went wrong'))
+
+        expect(dialog.open).toHaveBeenCalledTimes(1)
+        expect(errors).toEqual([{ errorInstance: jasmine.any(Error), message: 'Something went wrong' }])
+    })
+
+    it('should show the error when reporting it fails', () => {
+        spyOn(TestBed.inject(ErrorReporting), 'report').and.throwError('Reporting failed')
+
+        errorHandler.handleError(new Error('Something went wrong'))
+
+        expect(errors).toEqual([{ errorInstance: jasmine.any(Error), message: 'Something went wrong' }])
+    })
+})
@@ -2,10 +2,12 @@ import { HttpErrorResponse } from '@angular/common/http'
 import { ErrorHandler, inject, Injectable, Injector, NgZone } from '@angular/core'
 import { MatDialog, MatDialogRef } from '@angular/material/dialog'
 import { notUndefined } from '@ppwcode/js-ts-oddsandends/lib/conditional-assert'
+import { ErrorReporting } from '../error-reporting/error-reporting'
 import { GlobalErrorDialogComponent } from './global-error-dialog.component'
 
 /**
  * Handle any errors thrown by Angular application.
+ * The errors are reported to the reporter of `provideErrorReporting`, when provided.
  */
 @Injectable()
 export class GlobalErrorHandler extends ErrorHandler {
@@ -33,6 +35,12 @@ export class GlobalErrorHandler extends ErrorHandler {
             super.handleError(error)
         }
 
+        try {
+            this.errorReporting.report(error)
+        } catch {
+            // Failing to report the error must not prevent the user from seeing it.
+        }
+
         this.zone.runTask(() => {
             if (this.dialogRef === undefined) {
                 this.openDialog()
@@ -61,6 +69,10 @@ export class GlobalErrorHandler extends ErrorHandler {
         return this.#injector.get(MatDialog)
     }
 
+    private get errorReporting(): ErrorReporting {
+        return this.#injector.get(ErrorReporting)
+    }
+
     private get zone(): NgZone {
         return this.#injector.get(NgZone)
     }
@@ -0,0 +1,51 @@
+import { TestBed } from '@angular/core/testing'
+import { InMemoryLogger, InMemoryLogLine, PPW_LOGGER, provideInMemoryLogger } from '@ppwcode/ng-common'
+
+describe('InMemoryLogger', () => {
+    let logger: InMemoryLogger
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ providers: [provideInMemoryLogger({ prefix: '[app]', maxSize: 2 })] })
+        logger = TestBed.inject(PPW_LOGGER) as InMemoryLogger
+    })
+
+    it('should keep the log lines with their timestamp', () => {
+        logger.warn('message', 1)
+
+        expect(logger.logLines).toEqual([
+            { type: 'warn', message: '[app] message', optionalParams: [1], timestamp: jasmine.any(Date) }
+        ])
+    })
+
+    it('should only keep the most recent log lines', () => {
+        logger.info('first')
+        logger.info('second')
+        logger.info('third')
+
+        expect(logger.logLines.map((line) => line.message)).toEqual(['[app] second', '[app] third'])
+    })
+
+    it('should update the signal of the log lines', async () => {
+        logger.info('message')
+        await Promise.resolve()
+
+        expect(logger.logLinesSignal().map((line) => line.message)).toEqual(['[app] message'])
+    })
+
+    it('should emit the new log lines', () => {
+        const lines: Array<InMemoryLogLine> = []
+        logger.logLine$.subscribe((line) => lines.push(line))
+
+        logger.error('message')
+
+        expect(lines.map((line) => line.message)).toEqual(['[app] message'])
+    })
+
+    it('should remove the log lines on clear', () => {
+        logger.info('message')
+
+        logger.clear()
+
+        expect(logger.logLines).toEqual([])
+    })
+})
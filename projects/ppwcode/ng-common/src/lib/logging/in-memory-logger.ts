@@ -1,55 +1,62 @@
 // Any is allowed in this file because the type definition of the console only supports any.
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { FactoryProvider } from '@angular/core'
-import { PPW_LOGGER, PpwLogger } from './logger'
+import { computed, FactoryProvider, Signal } from '@angular/core'
+import { map, Observable } from 'rxjs'
+import { PpwLogEntry, PpwLogLevel, prefixLogMessage } from './log-entry'
+import { Logger, PPW_LOGGER } from './logger'
 import { PpwLoggerOptions } from './logger-options'
+import { InMemoryLogSink } from './sinks/in-memory-log-sink'
 
 export interface InMemoryLogLine {
-    type: 'debug' | 'info' | 'log' | 'warn' | 'error'
+    type: PpwLogLevel
     message: string
     optionalParams: any[]
+    timestamp: Date
 }
 
-export class InMemoryLogger implements PpwLogger {
-    public readonly logLines: Array<InMemoryLogLine> = []
-
-    constructor(
-        public readonly prefix: string,
-        public readonly debugMode: boolean
-    ) {}
-
-    public debug(message?: any, ...optionalParams: any[]): void {
-        if (this.debugMode) {
-            this.logLines.push({ type: 'debug', message: this.prefixMessage(message), optionalParams })
-        }
-    }
-
-    public info(message?: any, ...optionalParams: any[]): void {
-        this.logLines.push({ type: 'info', message: this.prefixMessage(message), optionalParams })
-    }
-
-    public log(message?: any, ...optionalParams: any[]): void {
-        this.logLines.push({ type: 'log', message: this.prefixMessage(message), optionalParams })
-    }
+export interface PpwInMemoryLoggerOptions extends Pick<PpwLoggerOptions, 'debug' | 'prefix'> {
+    /** The maximum number of log lines that are kept. Defaults to 1000. */
+    maxSize?: number
+}
 
-    public warn(message?: any, ...optionalParams: any[]): void {
-        this.logLines.push({ type: 'warn', message: this.prefixMessage(message), optionalParams })
+/** Logger that keeps its entries in memory, e.g. to verify the logging in unit tests without spying on the console. */
+export class InMemoryLogger extends Logger {
+    public readonly memorySink: InMemoryLogSink
+    /** Signal of the most recent log lines, updated in a microtask after a line is logged. */
+    public readonly logLinesSignal: Signal<Array<InMemoryLogLine>>
+    /** Emits every line that is logged. */
+    public readonly logLine$: Observable<InMemoryLogLine>
+
+    constructor(prefix: string, debugMode: boolean, memorySink: InMemoryLogSink = new InMemoryLogSink()) {
+        super(prefix, debugMode, { sinks: [memorySink] })
+        this.memorySink = memorySink
+        this.logLinesSignal = computed(() => memorySink.entries().map(toInMemoryLogLine))
+        this.logLine$ = memorySink.entry$.pipe(map(toInMemoryLogLine))
     }
 
-    public error(message?: any, ...optionalParams: any[]): void {
-        this.logLines.push({ type: 'error', message: this.prefixMessage(message), optionalParams })
+    /** The most recent log lines, from the oldest to the newest. */
+    public get logLines(): Array<InMemoryLogLine> {
+        return this.memorySink.entries().map(toInMemoryLogLine)
     }
 
     public clear(): void {
-        this.logLines.splice(0, this.logLines.length)
-    }
-
-    private prefixMessage(message?: any): string {
-        return this.prefix ? `${this.prefix} ${message}` : message
+        this.memorySink.clear()
     }
 }
 
-export const provideInMemoryLogger = (options?: PpwLoggerOptions): FactoryProvider => ({
+const toInMemoryLogLine = (entry: PpwLogEntry): InMemoryLogLine => ({
+    type: entry.level,
+    message: prefixLogMessage(entry),
+    optionalParams: entry.optionalParams,
+    timestamp: entry.timestamp
+})
+
+export const provideInMemoryLogger = (options?: PpwInMemoryLoggerOptions): FactoryProvider => ({
     provide: PPW_LOGGER,
-    useFactory: () => new InMemoryLogger(options?.prefix ?? '', options?.debug ?? false)
+    useFactory: () =>
+        new InMemoryLogger(
+            options?.prefix ?? '',
+            options?.debug ?? false,
+            new InMemoryLogSink(undefined, options?.maxSize)
+        )
 })
@@ -0,0 +1,81 @@
+// Any is allowed in this file because the type definition of the console only supports any.
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/** The levels of the log entries, from the least to the most severe. */
+export const PPW_LOG_LEVELS = ['debug', 'info', 'log', 'warn', 'error'] as const
+
+export type PpwLogLevel = (typeof PPW_LOG_LEVELS)[number]
+
+/** Structured information about the situation in which an entry is logged, e.g. the user, route and correlation id. */
+export type PpwLogContext = Record<string, unknown>
+
+export interface PpwLogEntry {
+    level: PpwLogLevel
+    /** The prefix of the logger, empty when the logger has no prefix. */
+    prefix: string
+    /** The dot-separated scope of the logger, empty for the root scope. */
+    scope: string
+    /** The message as it was passed to the logger, see `prefixLogMessage` and `formatLogMessage`. */
+    message: any
+    optionalParams: any[]
+    timestamp: Date
+    context: PpwLogContext
+}
+
+/** Writes log entries to a destination, e.g. the console, memory or a log collector. */
+export interface PpwLogSink {
+    /** The minimum level of the entries that are written to the sink. When omitted, all entries are written. */
+    readonly minLevel?: PpwLogLevel
+
+    write(entry: PpwLogEntry): void
+}
+
+/**
+ * Returns whether an entry with the given level passes the minimum level.
+ * @param level The level of the entry.
+ * @param minLevel The minimum level. When omitted, all levels pass.
+ */
+export const isLogLevelEnabled = (level: PpwLogLevel, minLevel?: PpwLogLevel): boolean =>
+    !minLevel || PPW_LOG_LEVELS.indexOf(level) >= PPW_LOG_LEVELS.indexOf(minLevel)
+
+/**
+ * Returns the prefix and the scope of the logger of the entry, e.g. `[app] [ng-async]`.
+ * @param entry The log entry.
+ */
+export const formatLogPrefix = (entry: Pick<PpwLogEntry, 'prefix' | 'scope'>): string =>
+    [entry.prefix, entry.scope && `[${entry.scope}]`].filter(Boolean).join(' ')
+
+/**
+ * Returns the message of the entry prefixed with the prefix and the scope of its logger, when the message is a string.
+ * Other messages, e.g. objects, are returned as they are so their structure isn't lost.
+ * @param entry The log entry.
+ */
+export const prefixLogMessage = (entry: Pick<PpwLogEntry, 'prefix' | 'scope' | 'message'>): any => {
+    const prefix = formatLogPrefix(entry)
+    return prefix && typeof entry.message === 'string' ? `${prefix} ${entry.message}` : entry.message
+}
+
+/**
+ * Returns the message of the entry as text, prefixed with the prefix and the scope of its logger. Errors are formatted
+ * as their name and message, other messages that aren't a string as JSON.
+ * @param entry The log entry.
+ */
+export const formatLogMessage = (entry: Pick<PpwLogEntry, 'prefix' | 'scope' | 'message'>): string => {
+    if (typeof entry.message === 'string') {
+        return prefixLogMessage(entry)
+    }
+
+    return [formatLogPrefix(entry), formatLogValue(entry.message)].filter(Boolean).join(' ')
+}
+
+const formatLogValue = (value: unknown): string => {
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`
+    }
+
+    try {
+        return JSON.stringify(value) ?? String(value)
+    } catch {
+        return String(value)
+    }
+}
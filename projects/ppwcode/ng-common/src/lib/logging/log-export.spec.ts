@@ -0,0 +1,46 @@
+import { formatLogEntriesAsNdjson, formatLogEntriesAsText, PpwLogEntry } from '@ppwcode/ng-common'
+
+describe('log export', () => {
+    const entries: Array<PpwLogEntry> = [
+        {
+            level: 'info',
+            prefix: '',
+            scope: '',
+            message: 'players loaded',
+            optionalParams: [],
+            timestamp: new Date(Date.UTC(2024, 0, 1, 12)),
+            context: {}
+        },
+        {
+            level: 'error',
+            prefix: '',
+            scope: 'table',
+            message: 'failed',
+            optionalParams: ['reason', { id: 1 }],
+            timestamp: new Date(Date.UTC(2024, 0, 1, 12, 30)),
+            context: { user: 'john' }
+        }
+    ]
+
+    it('should format the entries as newline delimited JSON', () => {
+        const lines = formatLogEntriesAsNdjson(entries).split('\n')
+
+        expect(lines.length).toBe(3)
+        expect(lines[2]).toBe('')
+        expect(JSON.parse(lines[1])).toEqual({
+            level: 'error',
+            scope: 'table',
+            message: '[table] failed',
+            params: ['reason', { id: 1 }],
+            timestamp: '2024-01-01T12:30:00.000Z',
+            context: { user: 'john' }
+        })
+    })
+
+    it('should format the entries as plain text', () => {
+        expect(formatLogEntriesAsText(entries)).toBe(
+            '2024-01-01T12:00:00.000Z INFO  players loaded\n' +
+                '2024-01-01T12:30:00.000Z ERROR [table] failed reason {"id":1} {"user":"john"}\n'
+        )
+    })
+})
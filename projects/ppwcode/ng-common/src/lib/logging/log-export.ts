@@ -0,0 +1,45 @@
+import { saveAs } from 'file-saver-es'
+import { PpwLogEntry } from './log-entry'
+import { serializeLogEntry } from './sinks/http-log-sink'
+
+export type PpwLogExportFormat = 'ndjson' | 'text'
+
+/**
+ * Formats the log entries as newline delimited JSON, one `SerializedLogEntry` per line.
+ * @param entries The log entries.
+ */
+export const formatLogEntriesAsNdjson = (entries: Array<PpwLogEntry>): string =>
+    entries.map((entry) => `${JSON.stringify(serializeLogEntry(entry))}\n`).join('')
+
+/**
+ * Formats the log entries as plain text, one line per entry with its timestamp, level, message and parameters.
+ * @param entries The log entries.
+ */
+export const formatLogEntriesAsText = (entries: Array<PpwLogEntry>): string =>
+    entries
+        .map((entry) => {
+            const { level, message, params, timestamp, context } = serializeLogEntry(entry)
+            const details = [...params, ...(Object.keys(context).length ? [context] : [])].map((detail) =>
+                typeof detail === 'string' ? detail : JSON.stringify(detail)
+            )
+            return `${[timestamp, level.toUpperCase().padEnd(5), message, ...details].join(' ')}\n`
+        })
+        .join('')
+
+/**
+ * Saves the log entries as a file, e.g. to attach the log of a user to an issue.
+ * @param entries The log entries.
+ * @param format The format of the file.
+ * @param fileName The name of the file without extension. Defaults to `log`.
+ */
+export const exportLogEntries = (
+    entries: Array<PpwLogEntry>,
+    format: PpwLogExportFormat,
+    fileName: string = 'log'
+): void => {
+    const blob =
+        format === 'ndjson'
+            ? new Blob([formatLogEntriesAsNdjson(entries)], { type: 'application/x-ndjson' })
+            : new Blob([formatLogEntriesAsText(entries)], { type: 'text/plain' })
+    saveAs(blob, `${fileName}.${format === 'ndjson' ? 'ndjson' : 'txt'}`)
+}
@@ -0,0 +1,113 @@
+import { PPW_LOG_LEVELS, PpwLogLevel } from './log-entry'
+
+export const DEFAULT_LOG_LEVELS_STORAGE_KEY = 'ppw-log-levels'
+
+/** The name of the global helper to set the levels from the browser console. */
+export const DEFAULT_LOG_CONSOLE_HELPER = 'ppwLog'
+
+/** The root scope. Its level applies to every scope that doesn't have a level of its own. */
+export const ROOT_LOG_SCOPE = ''
+
+/** Helper to change the log levels from the browser console, e.g. `ppwLog.setLevel('ng-async', 'debug')`. */
+export interface PpwLogConsoleHelper {
+    /** Sets the minimum level of a scope and its child scopes, or of the root scope when no scope is given. */
+    setLevel(scopeOrLevel: string, level?: PpwLogLevel): void
+    /** Removes the level that was set at runtime for a scope, or for the root scope when no scope is given. */
+    resetLevel(scope?: string): void
+    /** Returns the levels by scope. */
+    levels(): Record<string, PpwLogLevel>
+}
+
+/**
+ * The minimum log levels by scope. Scopes are hierarchical, separated by a dot: the level of `ng-async` applies to
+ * `ng-async.retry` as well, unless `ng-async.retry` has a level of its own. The levels that are set at runtime take
+ * precedence over the configured levels and are persisted in the storage, so they survive a reload of the application.
+ */
+export class PpwLogLevels {
+    #configuredLevels: Map<string, PpwLogLevel>
+    #runtimeLevels: Map<string, PpwLogLevel>
+
+    constructor(
+        levels: Record<string, PpwLogLevel>,
+        private readonly storage: Storage | null = null,
+        private readonly storageKey: string = DEFAULT_LOG_LEVELS_STORAGE_KEY
+    ) {
+        this.#configuredLevels = new Map(Object.entries(levels))
+        this.#runtimeLevels = new Map(Object.entries(this.#readStorage()))
+    }
+
+    /**
+     * Returns the level of the scope: its own level, or the level of the closest parent scope that has one.
+     * @param scope The dot-separated scope.
+     */
+    public levelFor(scope: string): PpwLogLevel {
+        const levels = this.toRecord()
+        for (let parts = scope ? scope.split('.') : []; parts.length; parts = parts.slice(0, -1)) {
+            const level = levels[parts.join('.')]
+            if (level) {
+                return level
+            }
+        }
+        return levels[ROOT_LOG_SCOPE] ?? 'info'
+    }
+
+    /**
+     * Sets the minimum level of the scope and its child scopes at runtime.
+     * @param scope The dot-separated scope, or `ROOT_LOG_SCOPE`.
+     * @param level The minimum level.
+     */
+    public setLevel(scope: string, level: PpwLogLevel): void {
+        if (!PPW_LOG_LEVELS.includes(level)) {
+            throw new Error(`Unknown log level "${level}", expected one of ${PPW_LOG_LEVELS.join(', ')}.`)
+        }
+        this.#runtimeLevels.set(scope, level)
+        this.#writeStorage()
+    }
+
+    /**
+     * Removes the level that was set at runtime for the scope, so it gets its configured level back.
+     * @param scope The dot-separated scope, or `ROOT_LOG_SCOPE`.
+     */
+    public resetLevel(scope: string): void {
+        this.#runtimeLevels.delete(scope)
+        this.#writeStorage()
+    }
+
+    /** Returns the levels by scope, the levels that are set at runtime merged into the configured levels. */
+    public toRecord(): Record<string, PpwLogLevel> {
+        return { ...Object.fromEntries(this.#configuredLevels), ...Object.fromEntries(this.#runtimeLevels) }
+    }
+
+    /** Creates a helper to change the levels from the browser console. */
+    public createConsoleHelper(): PpwLogConsoleHelper {
+        return {
+            setLevel: (scopeOrLevel, level) =>
+                level === undefined
+                    ? this.setLevel(ROOT_LOG_SCOPE, scopeOrLevel as PpwLogLevel)
+                    : this.setLevel(scopeOrLevel, level),
+            resetLevel: (scope = ROOT_LOG_SCOPE) => this.resetLevel(scope),
+            levels: () => this.toRecord()
+        }
+    }
+
+    #readStorage(): Record<string, PpwLogLevel> {
+        const value = this.storage?.getItem(this.storageKey)
+        if (!value) {
+            return {}
+        }
+
+        try {
+            const levels = JSON.parse(value) as Record<string, unknown>
+            return Object.fromEntries(
+                Object.entries(levels).filter(([, level]) => PPW_LOG_LEVELS.includes(level as PpwLogLevel))
+            ) as Record<string, PpwLogLevel>
+        } catch {
+            // Corrupt levels are ignored and will be overwritten by the next change of a level.
+            return {}
+        }
+    }
+
+    #writeStorage(): void {
+        this.storage?.setItem(this.storageKey, JSON.stringify(Object.fromEntries(this.#runtimeLevels)))
+    }
+}
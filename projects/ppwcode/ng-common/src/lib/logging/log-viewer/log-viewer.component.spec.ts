@@ -0,0 +1,65 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing'
+import { NoopAnimationsModule } from '@angular/platform-browser/animations'
+import { InMemoryLogSink, Logger, PpwLogViewerComponent } from '@ppwcode/ng-common'
+
+describe('PpwLogViewerComponent', () => {
+    let component: PpwLogViewerComponent
+    let fixture: ComponentFixture<PpwLogViewerComponent>
+    let sink: InMemoryLogSink
+
+    const renderedMessages = (): Array<string> =>
+        Array.from(
+            (fixture.nativeElement as HTMLElement).querySelectorAll('.ppw-log-viewer-entry-message'),
+            (element) => element.textContent ?? ''
+        )
+
+    beforeEach(async () => {
+        await TestBed.configureTestingModule({
+            imports: [PpwLogViewerComponent, NoopAnimationsModule]
+        }).compileComponents()
+
+        sink = new InMemoryLogSink()
+        const logger = new Logger('', true, { sinks: [sink] })
+        logger.debug('loading players')
+        logger.child('table').warn('slow rendering')
+        logger.error('players failed to load')
+
+        fixture = TestBed.createComponent(PpwLogViewerComponent)
+        fixture.componentRef.setInput('sink', sink)
+        component = fixture.componentInstance
+        fixture.detectChanges()
+    })
+
+    it('should show all the entries', () => {
+        expect(renderedMessages()).toEqual(['loading players', '[table] slow rendering', 'players failed to load'])
+    })
+
+    it('should filter the entries by minimum level', () => {
+        component.minLevel.set('warn')
+        fixture.detectChanges()
+
+        expect(renderedMessages()).toEqual(['[table] slow rendering', 'players failed to load'])
+    })
+
+    it('should filter the entries by text in the message or scope', () => {
+        component.search.set('TABLE')
+        fixture.detectChanges()
+        expect(renderedMessages()).toEqual(['[table] slow rendering'])
+
+        component.search.set('players')
+        fixture.detectChanges()
+        expect(renderedMessages()).toEqual(['loading players', 'players failed to load'])
+    })
+
+    it('should show new entries and clear the sink', async () => {
+        new Logger('', false, { sinks: [sink] }).info('new entry')
+        await Promise.resolve()
+        fixture.detectChanges()
+        expect(renderedMessages().length).toBe(4)
+
+        component.clear()
+        await Promise.resolve()
+        fixture.detectChanges()
+        expect(renderedMessages()).toEqual([])
+    })
+})
@@ -0,0 +1,54 @@
+import { DatePipe } from '@angular/common'
+import { Component, computed, input, InputSignal, signal, Signal, WritableSignal } from '@angular/core'
+import { FormsModule } from '@angular/forms'
+import { MatButtonModule } from '@angular/material/button'
+import { MatFormFieldModule } from '@angular/material/form-field'
+import { MatInputModule } from '@angular/material/input'
+import { MatSelectModule } from '@angular/material/select'
+import { formatLogMessage, isLogLevelEnabled, PPW_LOG_LEVELS, PpwLogEntry, PpwLogLevel } from '../log-entry'
+import { exportLogEntries, PpwLogExportFormat } from '../log-export'
+import { InMemoryLogSink } from '../sinks/in-memory-log-sink'
+
+/**
+ * Shows the entries of an in-memory log sink, filtered by minimum level and text. The filtered entries can be exported
+ * as NDJSON or plain text, so support staff can attach the log of a user to an issue.
+ */
+@Component({
+    selector: 'ppw-log-viewer',
+    templateUrl: './log-viewer.component.html',
+    styleUrl: './log-viewer.component.scss',
+    imports: [DatePipe, FormsModule, MatButtonModule, MatFormFieldModule, MatInputModule, MatSelectModule]
+})
+export class PpwLogViewerComponent {
+    public sink: InputSignal<InMemoryLogSink> = input.required<InMemoryLogSink>()
+    /** The name of the exported file without extension. */
+    public exportFileName: InputSignal<string> = input('log')
+
+    public readonly levels = PPW_LOG_LEVELS
+    public minLevel: WritableSignal<PpwLogLevel> = signal('debug')
+    public search: WritableSignal<string> = signal('')
+
+    public filteredEntries: Signal<Array<PpwLogEntry>> = computed(() => {
+        const minLevel = this.minLevel()
+        const search = this.search().trim().toLowerCase()
+        return this.sink()
+            .entries()
+            .filter(
+                (entry) =>
+                    isLogLevelEnabled(entry.level, minLevel) &&
+                    (!search ||
+                        formatLogMessage(entry).toLowerCase().includes(search) ||
+                        entry.scope.toLowerCase().includes(search))
+            )
+    })
+
+    public readonly formatMessage = formatLogMessage
+
+    public export(format: PpwLogExportFormat): void {
+        exportLogEntries(this.filteredEntries(), format, this.exportFileName())
+    }
+
+    public clear(): void {
+        this.sink().clear()
+    }
+}
@@ -1,4 +1,28 @@
+import { PpwLogContext, PpwLogLevel, PpwLogSink } from './log-entry'
+
 export interface PpwLoggerOptions {
     debug?: boolean
     prefix?: string
+    /**
+     * The sinks the entries are written to. Defaults to the console. A function is called in the injection context of
+     * the logger, so sinks like the `HttpLogSink` can inject their dependencies: `() => new HttpLogSink({ url })`.
+     */
+    sinks?: Array<PpwLogSink | (() => PpwLogSink)>
+    /** Returns the context that is added to every entry, e.g. the current user and route. */
+    context?: () => PpwLogContext
+    /**
+     * The minimum level by scope, e.g. `{ 'ng-async': 'debug' }`. The root scope `''` defaults to `debug` in debug mode
+     * and `info` otherwise.
+     */
+    levels?: Record<string, PpwLogLevel>
+    /**
+     * The storage key of the levels that are set at runtime, or `false` to not persist them.
+     * Defaults to `ppw-log-levels`.
+     */
+    levelsStorageKey?: string | false
+    /**
+     * Installs a global helper to set the levels from the browser console, e.g. `ppwLog.setLevel('ng-async', 'debug')`.
+     * `true` installs it as `ppwLog`, a string installs it under that name. Not installed by default.
+     */
+    consoleHelper?: boolean | string
 }
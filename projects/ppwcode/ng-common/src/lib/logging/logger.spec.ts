@@ -0,0 +1,182 @@
+import { inject, Injector } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import {
+    ConsoleLogSink,
+    formatLogMessage,
+    InMemoryLogSink,
+    isScopedLogger,
+    LOCAL_STORAGE_TOKEN,
+    Logger,
+    PPW_LOGGER,
+    provideLocalStorageMock,
+    provideLogger,
+    PpwLogConsoleHelper,
+    PpwLogLevels,
+    PpwLogSink,
+    prefixLogMessage
+} from '@ppwcode/ng-common'
+
+describe('Logger', () => {
+    let memorySink: InMemoryLogSink
+    let warningSink: InMemoryLogSink
+
+    beforeEach(() => {
+        memorySink = new InMemoryLogSink()
+        warningSink = new InMemoryLogSink('warn')
+    })
+
+    it('should write the entries to all the sinks that accept their level', () => {
+        const logger = new Logger('[prefix]', false, { sinks: [memorySink, warningSink] })
+
+        logger.info('info message', 1)
+        logger.error('error message')
+
+        expect(
+            memorySink.entries().map((entry) => [entry.level, entry.prefix, entry.message, entry.optionalParams])
+        ).toEqual([
+            ['info', '[prefix]', 'info message', [1]],
+            ['error', '[prefix]', 'error message', []]
+        ])
+        expect(warningSink.entries().map((entry) => entry.level)).toEqual(['error'])
+    })
+
+    it('should only write debug entries in debug mode', () => {
+        new Logger('', false, { sinks: [memorySink] }).debug('hidden')
+        new Logger('', true, { sinks: [memorySink] }).debug('shown')
+
+        expect(memorySink.entries().map((entry) => entry.message)).toEqual(['shown'])
+    })
+
+    it('should add a timestamp and the context to the entries', () => {
+        const before = Date.now()
+        const logger = new Logger('', false, { sinks: [memorySink], context: () => ({ user: 'john' }) })
+
+        logger.withContext({ correlationId: 'abc' }).log('message')
+
+        const [entry] = memorySink.entries()
+        expect(entry.timestamp.getTime()).toBeGreaterThanOrEqual(before)
+        expect(entry.context).toEqual({ user: 'john', correlationId: 'abc' })
+    })
+
+    it('should write to the console by default', () => {
+        spyOn(console, 'warn')
+
+        new Logger('[prefix]', false).withContext({ route: '/players' }).warn('message', 1)
+
+        expect(console.warn).toHaveBeenCalledWith('[prefix] message', 1, { route: '/players' })
+    })
+
+    it('should create the sinks of the options in the injection context', () => {
+        const injectedSink = jasmine.createSpy('injectedSink').and.callFake((): PpwLogSink => {
+            inject(Injector)
+            return memorySink
+        })
+        TestBed.configureTestingModule({
+            providers: [
+                provideLogger({
+                    sinks: [warningSink, injectedSink],
+                    context: () => ({ app: 'demo' }),
+                    levelsStorageKey: false
+                })
+            ]
+        })
+
+        TestBed.inject(PPW_LOGGER).warn('message')
+
+        expect(injectedSink).toHaveBeenCalledTimes(1)
+        expect(memorySink.entries()[0].context).toEqual({ app: 'demo' })
+        expect(warningSink.entries().length).toBe(1)
+    })
+
+    describe('scopes', () => {
+        let levels: PpwLogLevels
+        let logger: Logger
+
+        beforeEach(() => {
+            levels = new PpwLogLevels({ '': 'info', table: 'warn' })
+            logger = new Logger('[app]', false, { sinks: [memorySink], levels })
+        })
+
+        it('should prefix the messages of a child logger with its hierarchical scope', () => {
+            logger.child('table').child('TableComponent').error('message')
+
+            expect(memorySink.entries()[0].scope).toBe('table.TableComponent')
+            expect(prefixLogMessage(memorySink.entries()[0])).toBe('[app] [table.TableComponent] message')
+        })
+
+        it('should keep messages that are not a string untouched', () => {
+            spyOn(console, 'debug')
+            const tableLogger = new Logger('', true, { sinks: [memorySink, new ConsoleLogSink()] }).child('table')
+
+            tableLogger.debug({ a: 1 }, 'param')
+
+            expect(memorySink.entries()[0].message).toEqual({ a: 1 })
+            expect(formatLogMessage(memorySink.entries()[0])).toBe('[table] {"a":1}')
+            expect(console.debug).toHaveBeenCalledWith('[table]', { a: 1 }, 'param')
+        })
+
+        it('should drop the entries below the level of the scope', () => {
+            const tableLogger = logger.child('table').child('TableComponent')
+
+            tableLogger.info('dropped')
+            logger.child('form').info('written')
+
+            expect(memorySink.entries().map(prefixLogMessage)).toEqual(['[app] [form] written'])
+            expect(tableLogger.debugMode).toBeFalse()
+        })
+
+        it('should apply the levels that are changed at runtime', () => {
+            const tableLogger = logger.child('table')
+
+            levels.setLevel('table', 'debug')
+            tableLogger.debug('written')
+
+            expect(tableLogger.debugMode).toBeTrue()
+            expect(memorySink.entries().map(prefixLogMessage)).toEqual(['[app] [table] written'])
+        })
+    })
+
+    it('should detect the loggers that support a context and child scopes', () => {
+        const customLogger = jasmine.createSpyObj('PpwLogger', ['debug', 'info', 'log', 'warn', 'error'])
+
+        expect(isScopedLogger(new Logger('', false))).toBeTrue()
+        expect(isScopedLogger(customLogger)).toBeFalse()
+    })
+
+    describe('provideLogger levels', () => {
+        afterEach(() => delete (globalThis as Record<string, unknown>)['ppwLog'])
+
+        it('should only install the console helper when it is enabled', () => {
+            TestBed.configureTestingModule({ providers: [provideLocalStorageMock(), provideLogger()] })
+
+            TestBed.inject(PPW_LOGGER)
+
+            expect((globalThis as Record<string, unknown>)['ppwLog']).toBeUndefined()
+        })
+
+        it('should persist the levels that are set with the console helper', () => {
+            TestBed.configureTestingModule({
+                providers: [provideLocalStorageMock(), provideLogger({ sinks: [memorySink], consoleHelper: true })]
+            })
+            const logger = TestBed.inject(PPW_LOGGER) as Logger
+            const consoleHelper = (globalThis as unknown as { ppwLog: PpwLogConsoleHelper }).ppwLog
+
+            consoleHelper.setLevel('ng-async', 'debug')
+            logger.child('ng-async').debug('message')
+
+            expect(memorySink.entries().length).toBe(1)
+            expect(TestBed.inject(LOCAL_STORAGE_TOKEN).getItem('ppw-log-levels')).toBe('{"ng-async":"debug"}')
+        })
+
+        it('should restore the persisted levels', () => {
+            TestBed.configureTestingModule({
+                providers: [provideLocalStorageMock(), provideLogger({ sinks: [memorySink] })]
+            })
+            TestBed.inject(LOCAL_STORAGE_TOKEN).setItem('ppw-log-levels', '{"":"error","ng-async":"invalid"}')
+
+            TestBed.inject(PPW_LOGGER).warn('dropped')
+
+            expect(memorySink.entries().length).toBe(0)
+        })
+    })
+})
@@ -1,7 +1,11 @@
 // Any is allowed in this file because the type definition of the console only supports any.
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { FactoryProvider, InjectionToken } from '@angular/core'
+import { FactoryProvider, inject, InjectionToken } from '@angular/core'
+import { LOCAL_STORAGE_TOKEN } from '../storage/local-storage'
+import { isLogLevelEnabled, PpwLogContext, PpwLogEntry, PpwLogLevel, PpwLogSink } from './log-entry'
+import { DEFAULT_LOG_CONSOLE_HELPER, DEFAULT_LOG_LEVELS_STORAGE_KEY, PpwLogLevels, ROOT_LOG_SCOPE } from './log-levels'
 import { PpwLoggerOptions } from './logger-options'
+import { ConsoleLogSink } from './sinks/console-log-sink'
 
 export const PPW_LOGGER = new InjectionToken<PpwLogger>('PpwLogger')
 
@@ -20,40 +24,154 @@ export interface PpwLogger {
     error(message?: any, ...optionalParams: any[]): void
 }
 
-export class Logger implements PpwLogger {
+/** A logger with a context and child scopes, like `Logger`. */
+export interface PpwScopedLogger extends PpwLogger {
+    /**
+     * Returns a logger that adds the given context to its entries, e.g. the correlation id of a request.
+     * @param context The context to merge into the context of this logger.
+     */
+    withContext(context: PpwLogContext): PpwScopedLogger
+
+    /**
+     * Returns a logger for a child scope, e.g. `logger.child('TableComponent')`. The messages of the child logger are
+     * prefixed with its scope and the level of the scope can be changed at runtime.
+     * @param scope The name of the child scope.
+     */
+    child(scope: string): PpwScopedLogger
+}
+
+/**
+ * Returns whether the logger supports a context and child scopes. Loggers that are provided as `PPW_LOGGER` by the
+ * application don't have to.
+ * @param logger The logger to check.
+ */
+export const isScopedLogger = (logger: PpwLogger): logger is PpwScopedLogger =>
+    typeof (logger as Partial<PpwScopedLogger>).withContext === 'function' &&
+    typeof (logger as Partial<PpwScopedLogger>).child === 'function'
+
+export interface LoggerConfig {
+    /** The sinks the entries are written to. Defaults to the console. */
+    sinks?: Array<PpwLogSink>
+    /** Returns the context that is added to every entry. */
+    context?: () => PpwLogContext
+    /** The dot-separated scope of the logger, see `child`. Defaults to the root scope. */
+    scope?: string
+    /** The minimum levels by scope. Defaults to `debug` in debug mode and `info` otherwise, for every scope. */
+    levels?: PpwLogLevels
+}
+
+/**
+ * Logger that writes its entries to one or more sinks. Entries have a timestamp and the context of the logger, the
+ * context of the options merged with the context of `withContext`. Entries below the level of the scope of the logger
+ * are dropped, the levels can be changed at runtime.
+ */
+export class Logger implements PpwScopedLogger {
+    public readonly sinks: Array<PpwLogSink>
+    public readonly scope: string
+    public readonly levels: PpwLogLevels
+    private readonly context: () => PpwLogContext
+
     constructor(
         public readonly prefix: string,
-        public readonly debugMode: boolean
-    ) {}
+        debugMode: boolean,
+        config: LoggerConfig = {}
+    ) {
+        this.sinks = config.sinks ?? [new ConsoleLogSink()]
+        this.context = config.context ?? (() => ({}))
+        this.scope = config.scope ?? ROOT_LOG_SCOPE
+        this.levels = config.levels ?? new PpwLogLevels({ [ROOT_LOG_SCOPE]: debugMode ? 'debug' : 'info' })
+    }
+
+    /** Whether debug entries are logged, according to the current level of the scope of the logger. */
+    public get debugMode(): boolean {
+        return isLogLevelEnabled('debug', this.levels.levelFor(this.scope))
+    }
 
     public debug(message?: any, ...optionalParams: any[]): void {
-        if (this.debugMode) {
-            console.debug(this.prefixMessage(message), ...optionalParams)
-        }
+        this.write('debug', message, optionalParams)
     }
 
     public info(message?: any, ...optionalParams: any[]): void {
-        console.info(this.prefixMessage(message), ...optionalParams)
+        this.write('info', message, optionalParams)
     }
 
     public log(message?: any, ...optionalParams: any[]): void {
-        console.log(this.prefixMessage(message), ...optionalParams)
+        this.write('log', message, optionalParams)
     }
 
     public warn(message?: any, ...optionalParams: any[]): void {
-        console.warn(this.prefixMessage(message), ...optionalParams)
+        this.write('warn', message, optionalParams)
     }
 
     public error(message?: any, ...optionalParams: any[]): void {
-        console.error(this.prefixMessage(message), ...optionalParams)
+        this.write('error', message, optionalParams)
+    }
+
+    public withContext(context: PpwLogContext): PpwScopedLogger {
+        return new Logger(this.prefix, this.debugMode, {
+            ...this.#config(),
+            context: () => ({ ...this.context(), ...context })
+        })
+    }
+
+    public child(scope: string): PpwScopedLogger {
+        return new Logger(this.prefix, this.debugMode, {
+            ...this.#config(),
+            scope: this.scope ? `${this.scope}.${scope}` : scope
+        })
+    }
+
+    protected write(level: PpwLogLevel, message: any, optionalParams: any[]): void {
+        if (!isLogLevelEnabled(level, this.levels.levelFor(this.scope))) {
+            return
+        }
+
+        const entry: PpwLogEntry = {
+            level,
+            prefix: this.prefix,
+            scope: this.scope,
+            message,
+            optionalParams,
+            timestamp: new Date(),
+            context: this.context()
+        }
+        this.sinks.filter((sink) => isLogLevelEnabled(level, sink.minLevel)).forEach((sink) => sink.write(entry))
     }
 
-    private prefixMessage(message?: any): string {
-        return this.prefix ? `${this.prefix} ${message}` : message
+    #config(): LoggerConfig {
+        return { sinks: this.sinks, context: this.context, scope: this.scope, levels: this.levels }
     }
 }
 
+/**
+ * Provides a logger that writes to the sinks of the options. The levels that are set at runtime are persisted in the
+ * storage of `LOCAL_STORAGE_TOKEN`, or the local storage of the browser when the token isn't provided. The global
+ * helper to set the levels from the browser console is only installed when the `consoleHelper` option is set.
+ * @param options The prefix, sinks, context and levels of the logger.
+ */
 export const provideLogger = (options?: PpwLoggerOptions): FactoryProvider => ({
     provide: PPW_LOGGER,
-    useFactory: () => new Logger(options?.prefix ?? '', options?.debug ?? false)
+    useFactory: () => {
+        const levelsStorageKey = options?.levelsStorageKey ?? DEFAULT_LOG_LEVELS_STORAGE_KEY
+        const storage =
+            levelsStorageKey === false
+                ? null
+                : inject(LOCAL_STORAGE_TOKEN, { optional: true }) ?? globalThis.localStorage ?? null
+        const levels = new PpwLogLevels(
+            { [ROOT_LOG_SCOPE]: options?.debug ? 'debug' : 'info', ...options?.levels },
+            storage,
+            levelsStorageKey || undefined
+        )
+
+        const consoleHelper = options?.consoleHelper === true ? DEFAULT_LOG_CONSOLE_HELPER : options?.consoleHelper
+        if (consoleHelper) {
+            Object.assign(globalThis, { [consoleHelper]: levels.createConsoleHelper() })
+        }
+
+        return new Logger(options?.prefix ?? '', options?.debug ?? false, {
+            sinks: options?.sinks?.map((sink) => (typeof sink === 'function' ? sink() : sink)),
+            context: options?.context,
+            levels
+        })
+    }
 })
@@ -0,0 +1,17 @@
+import { formatLogPrefix, PpwLogEntry, PpwLogLevel, PpwLogSink, prefixLogMessage } from '../log-entry'
+
+/**
+ * Writes the log entries to the console. The context of an entry is logged after its parameters, when not empty.
+ * Messages that aren't a string are logged as they are, after the prefix and the scope of the logger.
+ */
+export class ConsoleLogSink implements PpwLogSink {
+    constructor(public readonly minLevel?: PpwLogLevel) {}
+
+    public write(entry: PpwLogEntry): void {
+        const prefix = formatLogPrefix(entry)
+        const messageParams =
+            prefix && typeof entry.message !== 'string' ? [prefix, entry.message] : [prefixLogMessage(entry)]
+        const contextParams = Object.keys(entry.context).length ? [entry.context] : []
+        console[entry.level](...messageParams, ...entry.optionalParams, ...contextParams)
+    }
+}
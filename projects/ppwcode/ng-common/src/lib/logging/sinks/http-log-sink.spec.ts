@@ -0,0 +1,77 @@
+import { provideHttpClient } from '@angular/common/http'
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
+import { fakeAsync, TestBed, tick } from '@angular/core/testing'
+import { HttpLogSink, PpwLogEntry } from '@ppwcode/ng-common'
+
+describe('HttpLogSink', () => {
+    let httpTestingController: HttpTestingController
+    let sink: HttpLogSink
+
+    const createEntry = (message: string, optionalParams: Array<unknown> = []): PpwLogEntry => ({
+        level: 'error',
+        prefix: '',
+        scope: 'players',
+        message,
+        optionalParams,
+        timestamp: new Date(Date.UTC(2024, 0, 1)),
+        context: { user: 'john' }
+    })
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ providers: [provideHttpClient(), provideHttpClientTesting()] })
+        httpTestingController = TestBed.inject(HttpTestingController)
+        sink = TestBed.runInInjectionContext(() => new HttpLogSink({ url: '/api/logs', batchSize: 2 }))
+    })
+
+    afterEach(() => httpTestingController.verify())
+
+    it('should only accept entries from level info by default', () => {
+        expect(sink.minLevel).toBe('info')
+    })
+
+    it('should post the entries when the batch is full', () => {
+        sink.write(createEntry('first', [new Error('failure')]))
+        httpTestingController.expectNone('/api/logs')
+
+        sink.write(createEntry('second'))
+
+        const request = httpTestingController.expectOne('/api/logs')
+        expect(request.request.method).toBe('POST')
+        expect(request.request.body).toEqual([
+            {
+                level: 'error',
+                scope: 'players',
+                message: '[players] first',
+                params: [{ name: 'Error', message: 'failure', stack: jasmine.any(String) }],
+                timestamp: '2024-01-01T00:00:00.000Z',
+                context: { user: 'john' }
+            },
+            {
+                level: 'error',
+                scope: 'players',
+                message: '[players] second',
+                params: [],
+                timestamp: '2024-01-01T00:00:00.000Z',
+                context: { user: 'john' }
+            }
+        ])
+    })
+
+    it('should post an incomplete batch after the flush interval', fakeAsync(() => {
+        sink.write(createEntry('first'))
+
+        tick(4999)
+        httpTestingController.expectNone('/api/logs')
+        tick(1)
+        expect(httpTestingController.expectOne('/api/logs').request.body.length).toBe(1)
+    }))
+
+    it('should drop the entries of a batch that fails to post', () => {
+        sink.write(createEntry('first'))
+        sink.flush()
+        httpTestingController.expectOne('/api/logs').flush(null, { status: 503, statusText: 'Service Unavailable' })
+
+        sink.flush()
+        httpTestingController.expectNone('/api/logs')
+    })
+})
@@ -0,0 +1,96 @@
+import { HttpClient } from '@angular/common/http'
+import { inject } from '@angular/core'
+import { formatLogMessage, PpwLogContext, PpwLogEntry, PpwLogLevel, PpwLogSink } from '../log-entry'
+
+export interface HttpLogSinkOptions {
+    /** The url of the log collector. The batches are posted as an array of `SerializedLogEntry`. */
+    url: string
+    /** The minimum level of the entries that are posted. Defaults to `info`. */
+    minLevel?: PpwLogLevel
+    /** The number of entries after which the batch is posted. Defaults to 20. */
+    batchSize?: number
+    /** The time in milliseconds after which an incomplete batch is posted. Defaults to 5000. */
+    flushInterval?: number
+}
+
+/** A log entry as it is posted to the log collector. */
+export interface SerializedLogEntry {
+    level: PpwLogLevel
+    scope: string
+    message: string
+    params: Array<unknown>
+    timestamp: string
+    context: PpwLogContext
+}
+
+const DEFAULT_BATCH_SIZE = 20
+const DEFAULT_FLUSH_INTERVAL = 5000
+
+/**
+ * Posts the log entries in batches to a log collector. A batch is posted when it is full or when the flush interval
+ * has passed since its first entry. The entries of a batch that fails to post are dropped: logging the failure would
+ * add new entries for the sink to post.
+ */
+export class HttpLogSink implements PpwLogSink {
+    public readonly minLevel: PpwLogLevel
+    #batch: Array<SerializedLogEntry> = []
+    #flushTimeout: ReturnType<typeof setTimeout> | null = null
+
+    constructor(
+        private readonly options: HttpLogSinkOptions,
+        private readonly httpClient: HttpClient = inject(HttpClient)
+    ) {
+        this.minLevel = options.minLevel ?? 'info'
+    }
+
+    public write(entry: PpwLogEntry): void {
+        this.#batch.push(serializeLogEntry(entry))
+        if (this.#batch.length >= (this.options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+            this.flush()
+        } else if (this.#flushTimeout === null) {
+            this.#flushTimeout = setTimeout(() => this.flush(), this.options.flushInterval ?? DEFAULT_FLUSH_INTERVAL)
+        }
+    }
+
+    /** Posts the entries that are not posted yet. */
+    public flush(): void {
+        if (this.#flushTimeout !== null) {
+            clearTimeout(this.#flushTimeout)
+            this.#flushTimeout = null
+        }
+        if (!this.#batch.length) {
+            return
+        }
+
+        const batch = this.#batch
+        this.#batch = []
+        this.httpClient.post(this.options.url, batch).subscribe({ error: () => undefined })
+    }
+}
+
+/**
+ * Converts a log entry to a JSON serializable object. Errors are converted to their name, message and stack, other
+ * parameters that can't be serialized are converted to a string.
+ * @param entry The log entry.
+ */
+export const serializeLogEntry = (entry: PpwLogEntry): SerializedLogEntry => ({
+    level: entry.level,
+    scope: entry.scope,
+    message: formatLogMessage(entry),
+    params: entry.optionalParams.map(serializeLogParam),
+    timestamp: entry.timestamp.toISOString(),
+    context: entry.context
+})
+
+const serializeLogParam = (param: unknown): unknown => {
+    if (param instanceof Error) {
+        return { name: param.name, message: param.message, stack: param.stack }
+    }
+
+    try {
+        JSON.stringify(param)
+        return param
+    } catch {
+        return String(param)
+    }
+}
@@ -0,0 +1,43 @@
+import { computed } from '@angular/core'
+import { InMemoryLogSink, Logger } from '@ppwcode/ng-common'
+
+describe('InMemoryLogSink', () => {
+    let sink: InMemoryLogSink
+    let logger: Logger
+
+    beforeEach(() => {
+        sink = new InMemoryLogSink(undefined, 2)
+        logger = new Logger('', false, { sinks: [sink] })
+    })
+
+    it('should keep the most recent entries', () => {
+        logger.info('first')
+        logger.info('second')
+        logger.info('third')
+
+        expect(sink.entries().map((entry) => entry.message)).toEqual(['second', 'third'])
+    })
+
+    it('should allow logging while a computed is evaluated', () => {
+        const value = computed(() => {
+            logger.info('computing')
+            return 1
+        })
+
+        expect(value()).toBe(1)
+        expect(sink.entries().map((entry) => entry.message)).toEqual(['computing'])
+    })
+
+    it('should notify reactive contexts of new entries asynchronously', async () => {
+        const count = computed(() => sink.entries().length)
+        expect(count()).toBe(0)
+
+        logger.info('message')
+        await Promise.resolve()
+        expect(count()).toBe(1)
+
+        sink.clear()
+        await Promise.resolve()
+        expect(count()).toBe(0)
+    })
+})
@@ -0,0 +1,64 @@
+import { signal } from '@angular/core'
+import { Observable, Subject } from 'rxjs'
+import { RingBuffer } from '../../utilities/ring-buffer'
+import { PpwLogEntry, PpwLogLevel, PpwLogSink } from '../log-entry'
+
+export const DEFAULT_LOG_BUFFER_SIZE = 1000
+
+/**
+ * Keeps the most recent log entries in memory, e.g. to verify the logging in unit tests or to show the log in a
+ * `PpwLogViewerComponent`. When the buffer is full, the oldest entries are dropped.
+ */
+export class InMemoryLogSink implements PpwLogSink {
+    #buffer: RingBuffer<PpwLogEntry>
+    #version = signal(0)
+    #versionUpdateScheduled = false
+    #entry$ = new Subject<PpwLogEntry>()
+
+    /** Emits every entry that is written to the sink. */
+    public readonly entry$: Observable<PpwLogEntry> = this.#entry$.asObservable()
+
+    /**
+     * @param minLevel The minimum level of the entries that are kept.
+     * @param maxSize The maximum number of entries that are kept. Defaults to 1000.
+     */
+    constructor(
+        public readonly minLevel?: PpwLogLevel,
+        maxSize: number = DEFAULT_LOG_BUFFER_SIZE
+    ) {
+        this.#buffer = new RingBuffer(maxSize)
+    }
+
+    /**
+     * Returns the entries in the buffer, from the oldest to the newest. Reactive contexts, like a `computed` or a
+     * template, are notified of changes in a microtask: the sink can be written to while Angular evaluates them, and
+     * writing to a signal is not allowed then.
+     */
+    public entries(): Array<PpwLogEntry> {
+        this.#version()
+        return this.#buffer.toArray()
+    }
+
+    public write(entry: PpwLogEntry): void {
+        this.#buffer.push(entry)
+        this.#scheduleVersionUpdate()
+        this.#entry$.next(entry)
+    }
+
+    public clear(): void {
+        this.#buffer.clear()
+        this.#scheduleVersionUpdate()
+    }
+
+    #scheduleVersionUpdate(): void {
+        if (this.#versionUpdateScheduled) {
+            return
+        }
+
+        this.#versionUpdateScheduled = true
+        queueMicrotask(() => {
+            this.#versionUpdateScheduled = false
+            this.#version.update((version) => version + 1)
+        })
+    }
+}
@@ -0,0 +1,39 @@
+import { RingBuffer } from '@ppwcode/ng-common'
+
+describe('RingBuffer', () => {
+    it('should keep the items in the order they were added', () => {
+        const buffer = new RingBuffer<number>(3)
+
+        buffer.push(1)
+        buffer.push(2)
+
+        expect(buffer.length).toBe(2)
+        expect(buffer.toArray()).toEqual([1, 2])
+    })
+
+    it('should overwrite the oldest items when the buffer is full', () => {
+        const buffer = new RingBuffer<number>(3)
+
+        const overwrittenItems = [1, 2, 3, 4, 5].map((item) => buffer.push(item))
+
+        expect(overwrittenItems).toEqual([undefined, undefined, undefined, 1, 2])
+        expect(buffer.length).toBe(3)
+        expect(buffer.toArray()).toEqual([3, 4, 5])
+    })
+
+    it('should remove all the items on clear', () => {
+        const buffer = new RingBuffer<number>(2)
+        buffer.push(1)
+        buffer.push(2)
+        buffer.push(3)
+
+        buffer.clear()
+        buffer.push(4)
+
+        expect(buffer.toArray()).toEqual([4])
+    })
+
+    it('should throw an error for an invalid capacity', () => {
+        expect(() => new RingBuffer(0)).toThrowError('The capacity of a ring buffer must be a positive integer, got 0.')
+    })
+})
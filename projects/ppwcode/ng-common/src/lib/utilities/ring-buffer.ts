@@ -0,0 +1,48 @@
+/**
+ * A buffer with a fixed capacity. When the buffer is full, adding an item overwrites the oldest item.
+ */
+export class RingBuffer<T> {
+    #items: Array<T>
+    #start = 0
+    #length = 0
+
+    constructor(public readonly capacity: number) {
+        if (!Number.isInteger(capacity) || capacity < 1) {
+            throw new Error(`The capacity of a ring buffer must be a positive integer, got ${capacity}.`)
+        }
+        this.#items = new Array<T>(capacity)
+    }
+
+    /** The number of items in the buffer. */
+    public get length(): number {
+        return this.#length
+    }
+
+    /**
+     * Adds an item to the buffer.
+     * @param item The item to add.
+     * @returns The oldest item when it was overwritten, otherwise `undefined`.
+     */
+    public push(item: T): T | undefined {
+        if (this.#length < this.capacity) {
+            this.#items[(this.#start + this.#length++) % this.capacity] = item
+            return undefined
+        }
+
+        const overwrittenItem = this.#items[this.#start]
+        this.#items[this.#start] = item
+        this.#start = (this.#start + 1) % this.capacity
+        return overwrittenItem
+    }
+
+    /** Returns the items in the buffer, from the oldest to the newest. */
+    public toArray(): Array<T> {
+        return Array.from({ length: this.#length }, (_, index) => this.#items[(this.#start + index) % this.capacity])
+    }
+
+    public clear(): void {
+        this.#items = new Array<T>(this.capacity)
+        this.#start = 0
+        this.#length = 0
+    }
+}
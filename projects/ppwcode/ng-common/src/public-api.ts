@@ -2,13 +2,27 @@
  * Public API Surface of ng-common
  */
 
+export * from './lib/error-reporting/breadcrumb-recorders'
+export * from './lib/error-reporting/breadcrumb-trail'
+export * from './lib/error-reporting/error-report'
+export * from './lib/error-reporting/error-reporting'
+export * from './lib/error-reporting/provider'
+export * from './lib/error-reporting/reporters/http-error-reporter'
+export * from './lib/error-reporting/reporters/in-memory-error-reporter'
 export * from './lib/global-error-handler/global-error-handler'
 export * from './lib/global-error-handler/global-error-dialog.component'
 export * from './lib/global-error-handler/global-error-dialog-options'
 export * from './lib/global-error-handler/provider'
 export * from './lib/logging/in-memory-logger'
+export * from './lib/logging/log-entry'
+export * from './lib/logging/log-export'
+export * from './lib/logging/log-levels'
 export * from './lib/logging/logger'
 export * from './lib/logging/logger-options'
+export * from './lib/logging/log-viewer/log-viewer.component'
+export * from './lib/logging/sinks/console-log-sink'
+export * from './lib/logging/sinks/http-log-sink'
+export * from './lib/logging/sinks/in-memory-log-sink'
 export * from './lib/mixins/constructor'
 export * from './lib/mixins/handle-subscriptions'
 export * from './lib/mixins/responsive-observers'
@@ -18,4 +32,5 @@ export * from './lib/rxjs-operators/truthy-first'
 export * from './lib/rxjs-operators/truthy-filter'
 export * from './lib/storage/local-storage'
 export * from './lib/storage/session-storage'
+export * from './lib/utilities/ring-buffer'
 export * from './lib/utilities/value-reducers'
@@ -0,0 +1,146 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import {
+    FormControl,
+    FormGroup,
+    UntypedFormArray,
+    UntypedFormControl,
+    UntypedFormGroup,
+    Validators
+} from '@angular/forms'
+import { createFailedAsyncResult, PpwErrorMessage, PpwHttpError } from '@ppwcode/ng-async'
+import { applyServerValidationErrors, ControlsOf, SERVER_ERROR_KEY } from '@ppwcode/ng-forms'
+
+interface Person {
+    name: string
+    address: {
+        street: string
+        city: string
+    }
+}
+
+const createPersonForm = (): FormGroup<ControlsOf<Person>> =>
+    new FormGroup({
+        name: new FormControl('', { nonNullable: true, validators: [Validators.maxLength(5)] }),
+        address: new FormGroup({
+            street: new FormControl('', { nonNullable: true }),
+            city: new FormControl('', { nonNullable: true })
+        })
+    })
+
+const createValidationResponse = (body: object): HttpErrorResponse =>
+    new HttpErrorResponse({ status: 400, statusText: 'Bad Request', error: body })
+
+const createErrorMessage = (code: string, parameters: Array<string> = []): PpwErrorMessage => ({
+    code,
+    infoLevel: 'ERROR',
+    parameters,
+    text: `${code}_TEXT`,
+    translated: false
+})
+
+describe('applyServerValidationErrors', () => {
+    it('should set the ASP.NET field errors on the matching nested controls', () => {
+        const form = createPersonForm()
+        const response = createValidationResponse({
+            errors: { Name: ['Name is required.'], 'Address.Street': ['Street is unknown.', 'Street is too long.'] }
+        })
+
+        const unmatched = applyServerValidationErrors(response, form)
+
+        expect(unmatched).toEqual([])
+        expect(form.controls.name.getError(SERVER_ERROR_KEY)).toEqual([{ text: 'Name is required.' }])
+        expect(form.controls.address.controls.street.getError(SERVER_ERROR_KEY)).toEqual([
+            { text: 'Street is unknown.' },
+            { text: 'Street is too long.' }
+        ])
+        expect(form.controls.address.controls.street.touched).toBeTrue()
+        expect(form.controls.address.controls.city.errors).toBeNull()
+        expect(form.invalid).toBeTrue()
+    })
+
+    it('should use the path map for renamed fields', () => {
+        const form = createPersonForm()
+        const response = createValidationResponse({ errors: { fullName: ['Invalid name.'] } })
+
+        applyServerValidationErrors(response, form, { pathMap: { fullName: 'name' } })
+
+        expect(form.controls.name.getError(SERVER_ERROR_KEY)).toEqual([{ text: 'Invalid name.' }])
+    })
+
+    it('should support indexes of form arrays', () => {
+        const form = new UntypedFormGroup({
+            lines: new UntypedFormArray([new UntypedFormGroup({ amount: new UntypedFormControl(0) })])
+        })
+        const response = createValidationResponse({ errors: { 'lines[0].amount': ['Amount must be positive.'] } })
+
+        applyServerValidationErrors(response, form)
+
+        expect(form.get('lines.0.amount')?.getError(SERVER_ERROR_KEY)).toEqual([{ text: 'Amount must be positive.' }])
+    })
+
+    it('should map messages with parameters using the resolver and return the other messages as unmatched', () => {
+        const form = createPersonForm()
+        const error = new PpwHttpError('Bad Request', 400, 'Bad Request', [
+            createErrorMessage('CITY_UNKNOWN', ['address.city', 'Atlantis']),
+            createErrorMessage('GENERAL_FAILURE')
+        ])
+
+        const unmatched = applyServerValidationErrors(createFailedAsyncResult(error, null), form, {
+            resolveMessagePath: (message) => message.parameters[0]
+        })
+
+        expect(form.controls.address.controls.city.getError(SERVER_ERROR_KEY)).toEqual([
+            { text: 'CITY_UNKNOWN_TEXT', code: 'CITY_UNKNOWN', parameters: ['address.city', 'Atlantis'] }
+        ])
+        expect(unmatched).toEqual([
+            { text: 'GENERAL_FAILURE_TEXT', code: 'GENERAL_FAILURE', parameters: [], path: null }
+        ])
+    })
+
+    it('should return the field errors that do not match a control', () => {
+        const form = createPersonForm()
+        const response = createValidationResponse({ errors: { birthDate: ['Invalid date.'] } })
+
+        expect(applyServerValidationErrors(response, form)).toEqual([{ text: 'Invalid date.', path: 'birthDate' }])
+        expect(form.valid).toBeTrue()
+    })
+
+    it('should return the message of an error without structured information', () => {
+        const form = createPersonForm()
+
+        expect(applyServerValidationErrors(createFailedAsyncResult(new Error('Oops'), null), form)).toEqual([
+            { text: 'Oops', path: null }
+        ])
+    })
+
+    it('should clear the server errors on the next value change and keep the other errors', () => {
+        const form = createPersonForm()
+        form.controls.name.setValue('Too long name')
+        form.controls.address.controls.street.setErrors({ custom: true })
+        applyServerValidationErrors(
+            createValidationResponse({ errors: { name: ['Name is taken.'], 'address.street': ['Unknown.'] } }),
+            form
+        )
+        expect(form.controls.name.hasError('maxlength')).toBeTrue()
+
+        form.controls.name.setValue('Other long name')
+        form.controls.address.controls.street.setValue('Main street', { emitEvent: true })
+
+        expect(form.controls.name.hasError(SERVER_ERROR_KEY)).toBeFalse()
+        expect(form.controls.name.hasError('maxlength')).toBeTrue()
+        expect(form.controls.address.controls.street.hasError(SERVER_ERROR_KEY)).toBeFalse()
+    })
+
+    it('should only clear the server errors of the changed control', () => {
+        const form = createPersonForm()
+        applyServerValidationErrors(
+            createValidationResponse({ errors: { name: ['Name is taken.'], 'address.city': ['Unknown.'] } }),
+            form
+        )
+
+        form.controls.name.setValue('Jane')
+
+        expect(form.controls.name.hasError(SERVER_ERROR_KEY)).toBeFalse()
+        expect(form.controls.address.controls.city.hasError(SERVER_ERROR_KEY)).toBeTrue()
+    })
+})
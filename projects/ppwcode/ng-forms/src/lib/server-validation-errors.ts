@@ -0,0 +1,149 @@
+import { HttpErrorResponse } from '@angular/common/http'
+import { AbstractControl, FormArray, FormGroup, ValidationErrors } from '@angular/forms'
+import { AsyncResult, extractHttpError, isPpwHttpError, PpwErrorMessage } from '@ppwcode/ng-async'
+import { first } from 'rxjs'
+import { ControlsOf } from './controls-of'
+
+/** The key of the validation error that is set on controls for errors returned by the server. */
+export const SERVER_ERROR_KEY = 'serverError'
+
+/** A single server error message set on a control. */
+export interface PpwServerErrorMessage {
+    /** The (translatable) text of the message. */
+    text: string
+    /** The code of the message, when the error originates from a PpwErrorMessage. */
+    code?: string
+    /** The parameters of the message, when the error originates from a PpwErrorMessage. */
+    parameters?: Array<string>
+}
+
+/** A server error message that could not be mapped onto a control of the form. */
+export interface PpwUnmatchedServerError extends PpwServerErrorMessage {
+    /** The path of the field as returned by the server, if any. */
+    path: string | null
+}
+
+export interface ServerValidationErrorsOptions {
+    /**
+     * Maps field paths of the server onto paths of controls in the form, for fields that have been renamed.
+     * Keys are the paths as returned by the server, values are the dot-separated paths in the form.
+     */
+    pathMap?: Record<string, string>
+    /**
+     * Resolves the field path of a PpwErrorMessage. Messages for which no path is resolved are returned as unmatched.
+     * By default, messages are not mapped onto controls.
+     */
+    resolveMessagePath?: (message: PpwErrorMessage) => string | null | undefined
+}
+
+/**
+ * Sets the field errors of a failed async result or HTTP response as `serverError` errors on the matching controls of
+ * the given form. Server paths like `address.street`, `Address.Street` and `items[0].name` are supported.
+ * The controls are marked as touched so the errors are shown immediately, and the server errors are removed from a
+ * control on its next value change.
+ *
+ * @param source The failed async result or HTTP response.
+ * @param form The form to set the errors on.
+ * @param options Options to map server paths onto the form.
+ * @returns The server errors that could not be mapped onto a control, e.g. to show them in a message bar.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const applyServerValidationErrors = <TValue extends Record<string, any>>(
+    source: AsyncResult<unknown, unknown> | HttpErrorResponse,
+    form: FormGroup<ControlsOf<TValue>>,
+    options: ServerValidationErrorsOptions = {}
+): Array<PpwUnmatchedServerError> => {
+    const error = source instanceof HttpErrorResponse ? extractHttpError(source) : source.error
+    if (!error) {
+        return []
+    }
+    if (!isPpwHttpError(error)) {
+        return [{ path: null, text: error.message }]
+    }
+
+    const errorsPerPath = new Map<string, Array<PpwServerErrorMessage>>()
+    const addError = (path: string, message: PpwServerErrorMessage): void => {
+        errorsPerPath.set(path, [...(errorsPerPath.get(path) ?? []), message])
+    }
+
+    const unmatched: Array<PpwUnmatchedServerError> = []
+    Object.entries(error.fieldErrors).forEach(([path, texts]) => texts.forEach((text) => addError(path, { text })))
+    error.messages.forEach((message) => {
+        const path = options.resolveMessagePath?.(message)
+        const serverErrorMessage = { text: message.text, code: message.code, parameters: message.parameters }
+        if (path) {
+            addError(path, serverErrorMessage)
+        } else {
+            unmatched.push({ ...serverErrorMessage, path: null })
+        }
+    })
+
+    errorsPerPath.forEach((messages, path) => {
+        const control = findControl(form, options.pathMap?.[path] ?? path)
+        if (control) {
+            setServerErrors(control, messages)
+        } else {
+            unmatched.push(...messages.map((message) => ({ ...message, path })))
+        }
+    })
+
+    return unmatched
+}
+
+/**
+ * Removes the server errors from the given control and all its descendants.
+ * @param control The control to clear the server errors of.
+ */
+export const clearServerValidationErrors = (control: AbstractControl): void => {
+    if (control.hasError(SERVER_ERROR_KEY)) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [SERVER_ERROR_KEY]: serverError, ...otherErrors } = control.errors as ValidationErrors
+        control.setErrors(Object.keys(otherErrors).length ? otherErrors : null)
+    }
+
+    if (control instanceof FormGroup || control instanceof FormArray) {
+        Object.values(control.controls).forEach((child: AbstractControl) => clearServerValidationErrors(child))
+    }
+}
+
+const setServerErrors = (control: AbstractControl, messages: Array<PpwServerErrorMessage>): void => {
+    control.setErrors({ ...(control.errors ?? {}), [SERVER_ERROR_KEY]: messages })
+    control.markAsTouched()
+
+    // A value change of the control runs its validators again, but only the server errors should be dropped, not the
+    // other manually set errors.
+    control.valueChanges.pipe(first()).subscribe(() => clearServerValidationErrors(control))
+}
+
+/**
+ * Finds the control for the given server path. Array indexes (`items[0]`) are supported and keys are matched
+ * case-insensitively when there is no exact match, because back-ends often use PascalCase property names.
+ */
+const findControl = (form: FormGroup, path: string): AbstractControl | null => {
+    const segments = path
+        .replace(/\[(\w+)]/g, '.$1')
+        .split('.')
+        .filter((segment) => segment.length > 0)
+
+    let control: AbstractControl | null = form
+    for (const segment of segments) {
+        if (control instanceof FormArray) {
+            control = control.at(Number(segment)) ?? null
+        } else if (control instanceof FormGroup) {
+            const controls: Record<string, AbstractControl> = control.controls
+            const key =
+                segment in controls
+                    ? segment
+                    : Object.keys(controls).find((controlKey) => controlKey.toLowerCase() === segment.toLowerCase())
+            control = key ? controls[key] : null
+        } else {
+            control = null
+        }
+
+        if (!control) {
+            return null
+        }
+    }
+
+    return control === form ? null : control
+}
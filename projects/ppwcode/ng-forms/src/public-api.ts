@@ -6,3 +6,4 @@ export * from './lib/validators/validation.service'
 export * from './lib/generators'
 export * from './lib/controls-of'
 export * from './lib/form-changes-detection'
+export * from './lib/server-validation-errors'
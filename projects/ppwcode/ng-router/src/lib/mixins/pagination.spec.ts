@@ -0,0 +1,80 @@
+import { Component } from '@angular/core'
+import { TestBed } from '@angular/core/testing'
+import { provideRouter, Router } from '@angular/router'
+import { CanPage, mixinPagination, mixinRelativeNavigation } from '@ppwcode/ng-router'
+import { firstValueFrom, of } from 'rxjs'
+
+@Component({ template: '' })
+class EmptyComponent {}
+
+describe('Pagination mixin', () => {
+    const PaginatedClass = mixinPagination(mixinRelativeNavigation())
+
+    let router: Router
+    let instance: CanPage
+
+    beforeEach(async () => {
+        TestBed.configureTestingModule({
+            providers: [provideRouter([{ path: '', component: EmptyComponent }])]
+        })
+        router = TestBed.inject(Router)
+        await router.navigateByUrl('/')
+        instance = TestBed.runInInjectionContext(() => new PaginatedClass())
+    })
+
+    it('should parse the repeated sort parameters', async () => {
+        await router.navigateByUrl('/?sort=name:desc&sort=address,city')
+
+        expect(await firstValueFrom(instance.sort$)).toEqual([
+            { property: 'name', direction: 'desc' },
+            { property: 'address,city', direction: 'asc' }
+        ])
+    })
+
+    it('should combine the page, page size and sorting with the filters', async () => {
+        expect(await firstValueFrom(instance.watchPagedRequest(of({ search: 'x' })))).toEqual({
+            pageIndex: 1,
+            pageSize: 20,
+            sort: [],
+            filters: { search: 'x' }
+        })
+
+        await router.navigateByUrl('/?page=3&pageSize=50&sort=name:desc')
+
+        expect(await firstValueFrom(instance.watchPagedRequest(of({ search: 'x' })))).toEqual({
+            pageIndex: 3,
+            pageSize: 50,
+            sort: [{ property: 'name', direction: 'desc' }],
+            filters: { search: 'x' }
+        })
+    })
+
+    it('should navigate to the paged request and keep the other query parameters', async () => {
+        await router.navigateByUrl('/?search=x&sort=name:asc')
+
+        await instance.navigateToPagedRequest({
+            pageIndex: 2,
+            pageSize: 10,
+            sort: [
+                { property: 'address,city', direction: 'asc' },
+                { property: 'name', direction: 'desc' }
+            ],
+            filters: null
+        })
+
+        expect(router.routerState.snapshot.root.queryParams).toEqual({
+            search: 'x',
+            page: '2',
+            pageSize: '10',
+            sort: ['address,city:asc', 'name:desc']
+        })
+        expect(await firstValueFrom(instance.sort$)).toEqual([
+            { property: 'address,city', direction: 'asc' },
+            { property: 'name', direction: 'desc' }
+        ])
+
+        await instance.navigateToPagedRequest({ pageIndex: 1, pageSize: 10, sort: [], filters: null })
+
+        expect(router.routerState.snapshot.root.queryParams).toEqual({ search: 'x', page: '1', pageSize: '10' })
+    })
+})
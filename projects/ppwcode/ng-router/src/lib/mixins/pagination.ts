@@ -1,7 +1,14 @@
 import { PageEvent } from '@angular/material/paginator'
-import { distinctUntilChanged, map, Observable } from 'rxjs'
-import { watchNumberQueryParam } from '../routing'
+import { combineLatest, distinctUntilChanged, map, Observable } from 'rxjs'
+import { watchNumberQueryParam, watchQueryParams } from '../routing'
 import { Constructor } from '@ppwcode/ng-common'
+import {
+    PagedRequest,
+    parsePagedRequest,
+    PpwPagedRequestSerializerOptions,
+    PpwSortDescriptor,
+    serializePagedRequestQueryParams
+} from '@ppwcode/ng-async'
 import { RelativeNavigationCtor } from '../relative-navigation'
 
 /**
@@ -12,6 +19,8 @@ export interface CanPage {
     page$: Observable<number>
     /** The number of items on a single page. */
     pageSize$: Observable<number>
+    /** The sorting of the items. */
+    sort$: Observable<Array<PpwSortDescriptor>>
 
     /** Handler for when the page should be changed. */
     handlePageEvent(e: PageEvent, queryParamName?: string): Promise<void>
@@ -22,13 +31,31 @@ export interface CanPage {
     /** Returns an observable stream that watches the given query parameter to be used as a page size. */
     watchPageSizeParam(paramName: string): Observable<number>
 
+    /** Returns an observable stream that watches the given query parameter to be used as sorting. */
+    watchSortParam(paramName: string): Observable<Array<PpwSortDescriptor>>
+
+    /** Returns an observable stream combining the page, page size and sorting with the given filters. */
+    watchPagedRequest<TFilters>(filters$: Observable<TFilters>): Observable<PagedRequest<TFilters>>
+
     /** Method to directly navigate to a page. */
     navigateToPage(page: number): Promise<void>
+
+    /** Method to navigate to the page, page size and sorting of the given paged request. */
+    navigateToPagedRequest(request: PagedRequest<unknown>): Promise<void>
 }
 
 /** A constructable type that implements the CanPage interface. */
 export type CanPageCtor = Constructor<CanPage>
 
+/** The names of the query parameters of a paged request, as written by `navigateToPagedRequest`. */
+const PAGED_REQUEST_QUERY_PARAMS: Required<
+    Pick<PpwPagedRequestSerializerOptions, 'pageIndexParam' | 'pageSizeParam' | 'sortParam'>
+> = {
+    pageIndexParam: 'page',
+    pageSizeParam: 'pageSize',
+    sortParam: 'sort'
+}
+
 /**
  * Enhances the given base class with functionality for pagination based on query parameters.
  * @param base The base class that already implements functionality for relative navigation.
@@ -37,6 +64,7 @@ export const mixinPagination = <T extends RelativeNavigationCtor>(base: T): T &
     return class extends base implements CanPage {
         public page$ = this.watchPageIndexParam('page')
         public pageSize$ = this.watchPageSizeParam('pageSize')
+        public sort$ = this.watchSortParam('sort')
         public defaultPageSize = 20
 
         public async handlePageEvent(e: PageEvent, queryParamName = 'page'): Promise<void> {
@@ -57,6 +85,19 @@ export const mixinPagination = <T extends RelativeNavigationCtor>(base: T): T &
             )
         }
 
+        public watchSortParam(paramName: string): Observable<Array<PpwSortDescriptor>> {
+            return watchQueryParams().pipe(
+                map((params) => parsePagedRequest(params, { sortParam: paramName }).sort),
+                distinctUntilChanged((previous, current) => JSON.stringify(previous) === JSON.stringify(current))
+            )
+        }
+
+        public watchPagedRequest<TFilters>(filters$: Observable<TFilters>): Observable<PagedRequest<TFilters>> {
+            return combineLatest([this.page$, this.pageSize$, this.sort$, filters$]).pipe(
+                map(([pageIndex, pageSize, sort, filters]) => ({ pageIndex, pageSize, sort, filters }))
+            )
+        }
+
         public async navigateToPage(page: number, queryParamName = 'page'): Promise<void> {
             await this.relativeNavigation([], {
                 queryParams: {
@@ -65,5 +106,16 @@ export const mixinPagination = <T extends RelativeNavigationCtor>(base: T): T &
                 queryParamsHandling: 'merge'
             })
         }
+
+        public async navigateToPagedRequest(request: PagedRequest<unknown>): Promise<void> {
+            await this.relativeNavigation([], {
+                queryParams: {
+                    // An empty sort is omitted by the serializer, so it is removed from the merged parameters here.
+                    [PAGED_REQUEST_QUERY_PARAMS.sortParam]: null,
+                    ...serializePagedRequestQueryParams({ ...request, filters: null }, PAGED_REQUEST_QUERY_PARAMS)
+                },
+                queryParamsHandling: 'merge'
+            })
+        }
     }
 }
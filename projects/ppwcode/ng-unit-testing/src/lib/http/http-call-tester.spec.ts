@@ -1,6 +1,7 @@
 import { HttpClient, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http'
 import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing'
 import { TestBed } from '@angular/core/testing'
+import { httpResponseToFileDownload } from '@ppwcode/ng-async'
 import { noop, of } from 'rxjs'
 import { map } from 'rxjs/operators'
 
@@ -44,6 +45,22 @@ describe('http-call-tester', () => {
         }).not.toThrow()
     })
 
+    it('should have a default implementation for testing file downloads with metadata', () => {
+        const tester = HttpCallTester.expectOneFileDownloadFromUrl('/api/export', 'Résumé.pdf', {
+            content: 'pdf',
+            contentType: 'application/pdf',
+            disposition: 'inline'
+        }).whenSubscribingTo(
+            httpClient
+                .get('/api/export', { responseType: 'blob', observe: 'response' })
+                .pipe(map((response) => httpResponseToFileDownload(response)))
+        )
+
+        expect(() => {
+            tester.verify()
+        }).not.toThrow()
+    })
+
     it('should throw if not all required info is given during verification', () => {
         const testerWithNoStream = HttpCallTester.expectOneCallToUrl('/api')
         const testerWithNoResponse = HttpCallTester.expectOneCallToUrl('/api').whenSubscribingTo(of([]))
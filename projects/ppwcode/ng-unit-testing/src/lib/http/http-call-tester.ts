@@ -1,6 +1,6 @@
 import { TestRequest } from '@angular/common/http/testing'
 import { notUndefined } from '@ppwcode/js-ts-oddsandends/lib/conditional-assert'
-import { FileDownload } from '@ppwcode/ng-async'
+import { ContentDispositionType, FileDownload } from '@ppwcode/ng-async'
 import { noop, Observable } from 'rxjs'
 
 import { expectOneCallToUrl, ResponseOptions } from './http-client-testing-controller'
@@ -75,36 +75,47 @@ export class HttpCallTester<TRequestResponse, TStreamResult> {
 
     /**
      * Creates a new instance of HttpCallTester that has been set up to check the retrieval of a file to download.
-     * It has been set up with an empty blob as the response result and expects that the stream result is the same blob
-     * with a file name.
+     * It has been set up with a blob as the response result and expects that the stream result is the same blob
+     * with a file name and the other metadata of the file.
      *
      * The expectation of the stream result can simply be overridden by calling `.expectStreamResultTo` again.
      *
      * @example
-     * HttpCallTester.expectOneFileDownloadFrom('https://api/export', 'download.xlsx')
+     * HttpCallTester.expectOneFileDownloadFrom('https://api/export', 'download.xlsx', { contentType: 'application/xlsx' })
      *    .whenSubscribingTo(httpClient.get('https://api/export))
      *    .verify();
      * @param url The url that is expected to be called.
      * @param fileName The name of the file that is expected to be downloaded.
+     * @param file The content, content type and disposition of the file that is expected to be downloaded.
      * @returns An HttpCallTester instance ready to verify the call.
      */
     public static expectOneFileDownloadFromUrl<TStreamResult = FileDownload>(
         url: string,
-        fileName?: string
+        fileName?: string,
+        file: { content?: string; contentType?: string; disposition?: ContentDispositionType } = {}
     ): HttpCallTester<Blob, TStreamResult> {
+        const blob = new Blob(file.content === undefined ? [] : [file.content], { type: file.contentType })
+
         // When a file name is passed, this should be mocked in the Content-Disposition response header.
         // The default implementation is to extract the file name from this header.
         const headers: Record<string, string> = {}
-        if (fileName) {
-            headers['Content-Disposition'] = `filename=${fileName}`
+        if (fileName || file.disposition) {
+            const parameters = fileName ? [`filename*=UTF-8''${encodeURIComponent(fileName)}`] : []
+            headers['Content-Disposition'] = [file.disposition ?? 'attachment', ...parameters].join('; ')
+        }
+        if (file.contentType) {
+            headers['Content-Type'] = file.contentType
         }
 
         return new HttpCallTester<Blob, TStreamResult>(url)
-            .withResponse(new Blob(), { headers })
+            .withResponse(blob, { headers })
             .expectStreamResultTo((result) => {
                 expect(result).toEqual({
-                    blob: new Blob(),
-                    fileName: fileName
+                    blob,
+                    fileName: fileName,
+                    contentType: file.contentType,
+                    size: blob.size,
+                    disposition: fileName || file.disposition ? file.disposition ?? 'attachment' : undefined
                 } as TStreamResult)
             })
     }
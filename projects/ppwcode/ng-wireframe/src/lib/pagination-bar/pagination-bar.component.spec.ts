@@ -1,6 +1,13 @@
 import { Component, input, InputSignal, Signal, viewChild } from '@angular/core'
 import { TestBed } from '@angular/core/testing'
-import { createEmptyPagedEntities, createSuccessAsyncResult, PagedAsyncResult, PagedEntities } from '@ppwcode/ng-async'
+import { PageEvent } from '@angular/material/paginator'
+import {
+    createEmptyPagedEntities,
+    createPagedRequest,
+    createSuccessAsyncResult,
+    PagedAsyncResult,
+    PagedEntities
+} from '@ppwcode/ng-async'
 import { PaginationBarComponent } from '@ppwcode/ng-wireframe'
 
 describe('Pagination bar component', () => {
@@ -33,6 +40,20 @@ describe('Pagination bar component', () => {
         'should support async result values',
         verifyPaginationBarEntity(createSuccessAsyncResult(createEmptyPagedEntities()), createEmptyPagedEntities())
     )
+
+    it('should read and update the paged request in the filters of the async result', async () => {
+        const pagedRequest = { ...createPagedRequest({ search: 'ppw' }, 10), pageIndex: 3 }
+        const fixture = await createTestComponent(createSuccessAsyncResult(createEmptyPagedEntities(), pagedRequest))
+        const paginationBar = fixture.componentInstance.paginationBar()
+        const pagedRequestChangeSpy = jasmine.createSpy('pagedRequestChange')
+        paginationBar.pagedRequestChange.subscribe(pagedRequestChangeSpy)
+
+        expect(paginationBar.pageIndex()).toBe(2)
+        expect(paginationBar.pageSize()).toBe(10)
+
+        paginationBar.handlePageEvent({ pageIndex: 3, pageSize: 50, length: 200 } as PageEvent)
+        expect(pagedRequestChangeSpy).toHaveBeenCalledOnceWith({ ...pagedRequest, pageIndex: 4, pageSize: 50 })
+    })
 })
 
 @Component({
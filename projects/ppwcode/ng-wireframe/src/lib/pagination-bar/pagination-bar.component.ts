@@ -1,7 +1,14 @@
 import { Component, computed, input, InputSignal, output, OutputEmitterRef, Signal } from '@angular/core'
 
 import { MatPaginatorModule, PageEvent } from '@angular/material/paginator'
-import { isAsyncResult, PagedAsyncResult, PagedEntities } from '@ppwcode/ng-async'
+import {
+    isAsyncResult,
+    isPagedRequest,
+    PagedAsyncResult,
+    PagedEntities,
+    PagedRequest,
+    withPage
+} from '@ppwcode/ng-async'
 
 @Component({
     selector: 'ppw-pagination-bar',
@@ -17,6 +24,8 @@ export class PaginationBarComponent {
 
     // Outputs
     public page: OutputEmitterRef<PageEvent> = output()
+    /** Emits the updated paged request when the filters of the paged async result are a paged request. */
+    public pagedRequestChange: OutputEmitterRef<PagedRequest<unknown>> = output()
 
     public entity: Signal<PagedEntities<unknown>> = computed(() => {
         const asyncResultInput = this.pagedAsyncResult()
@@ -27,7 +36,23 @@ export class PaginationBarComponent {
         }
     })
 
+    /** The paged request that is echoed in the filters of the paged async result, if any. */
+    public pagedRequest: Signal<PagedRequest<unknown> | null> = computed(() => {
+        const asyncResultInput = this.pagedAsyncResult()
+        return isAsyncResult<unknown, unknown>(asyncResultInput) && isPagedRequest(asyncResultInput.filters)
+            ? asyncResultInput.filters
+            : null
+    })
+
+    public pageIndex: Signal<number> = computed(() => (this.pagedRequest() ?? this.entity()).pageIndex - 1)
+    public pageSize: Signal<number> = computed(() => (this.pagedRequest() ?? this.entity()).pageSize)
+
     public handlePageEvent(e: PageEvent): void {
         this.page.emit(e)
+
+        const pagedRequest = this.pagedRequest()
+        if (pagedRequest) {
+            this.pagedRequestChange.emit(withPage(pagedRequest, e.pageIndex + 1, e.pageSize))
+        }
     }
 }
@@ -12,15 +12,20 @@ import { BrowserAnimationsModule } from '@angular/platform-browser/animations'
 import { TitleStrategy } from '@angular/router'
 import { provideTranslateService, TranslateLoader } from '@ngx-translate/core'
 import { TranslateHttpLoader } from '@ngx-translate/http-loader'
-import { PPW_ASYNC_RESULT_DEFAULT_OPTIONS, PpwAsyncResultDefaultOptions } from '@ppwcode/ng-async'
-import { provideGlobalErrorHandler } from '@ppwcode/ng-common'
+import {
+    PPW_ASYNC_RESULT_DEFAULT_OPTIONS,
+    PpwAsyncResultDefaultOptions,
+    provideHttpErrorExtractorWithTranslatedMessages,
+    provideInMemoryBackend
+} from '@ppwcode/ng-async'
+import { InMemoryErrorReporter, provideErrorReporting, provideGlobalErrorHandler } from '@ppwcode/ng-common'
 import { PPW_TABLE_DEFAULT_OPTIONS } from '@ppwcode/ng-common-components'
 import { TranslatedPageTitleStrategy } from '@ppwcode/ng-router'
 import { WireframeComponent } from '@ppwcode/ng-wireframe'
 import { AppRoutingModule } from './app-routing.module'
 import { AppComponent } from './app.component'
 import { EmptyAsyncResultComponent } from './filter-table/empty-async-result.component'
-import { getLuxonFormatter } from './filter-table/filter-table.component'
+import { getLuxonFormatter, PLAYERS_DATA } from './filter-table/filter-table.component'
 
 registerLocaleData(localeEn)
 
@@ -66,6 +71,7 @@ const ppwcodeComponents = [WireframeComponent]
             provide: PPW_ASYNC_RESULT_DEFAULT_OPTIONS,
             useValue: { emptyResultComponent: EmptyAsyncResultComponent } as PpwAsyncResultDefaultOptions
         },
+        provideHttpErrorExtractorWithTranslatedMessages(),
         provideGlobalErrorHandler({
             errorDialogOptions: {
                 allowIgnore: true,
@@ -80,7 +86,9 @@ const ppwcodeComponents = [WireframeComponent]
                 }
             }
         }),
+        provideErrorReporting({ reporter: new InMemoryErrorReporter() }),
         provideHttpClient(withInterceptorsFromDi()),
+        provideInMemoryBackend({ collections: { players: PLAYERS_DATA }, latency: 1000 }),
         provideTranslateService({
             defaultLanguage: 'en',
             loader: { provide: TranslateLoader, useFactory: createTranslateLoader, deps: [HttpClient] }
@@ -1,5 +1,6 @@
 import { CommonModule, formatCurrency, formatPercent, getCurrencySymbol } from '@angular/common'
-import { Component, Inject, LOCALE_ID, OnInit, signal, WritableSignal } from '@angular/core'
+import { HttpClient } from '@angular/common/http'
+import { Component, inject, Inject, Injector, LOCALE_ID, OnInit, signal, WritableSignal } from '@angular/core'
 import { FormControl, FormGroup, FormsModule, ReactiveFormsModule, Validators } from '@angular/forms'
 import { MatButtonModule } from '@angular/material/button'
 import { MatCardModule } from '@angular/material/card'
@@ -8,16 +9,18 @@ import { MatIconModule } from '@angular/material/icon'
 import { MatInputModule } from '@angular/material/input'
 import { MatSlideToggleModule } from '@angular/material/slide-toggle'
 import {
+    createPagedRequest,
     DEFAULT_HTTP_ERROR_CODES,
-    expectPagedAsyncResultHttpError,
-    expectPagedAsyncResultHttpSuccess,
+    handlePagedAsyncResult,
     PagedAsyncResult,
-    PagedEntities
+    PagedEntities,
+    PagedEntitiesDto,
+    serializePagedRequest
 } from '@ppwcode/ng-async'
 import { PpwTableModule, PpwTableOptions, SearchFilterComponent, TableRecord } from '@ppwcode/ng-common-components'
 import { PaginationBarComponent } from '@ppwcode/ng-wireframe'
 import { DateTime } from 'luxon'
-import { BehaviorSubject, combineLatest, delay, Observable, of, switchMap, tap } from 'rxjs'
+import { BehaviorSubject, combineLatest, Observable, switchMap, tap } from 'rxjs'
 import { AsyncResultModule } from '../../../projects/ppwcode/ng-async/src/lib/async-result/async-result.module'
 import { mixinTrackPending } from '../../../projects/ppwcode/ng-common/src/lib/mixins/track-pending'
 import { mixinPagination } from '../../../projects/ppwcode/ng-router/src/lib/mixins/pagination'
@@ -38,7 +41,8 @@ export interface PlayerFilters {
     lastName: string
 }
 
-const PLAYERS_DATA: Array<Player> = [
+/** The fixtures of the players, served by the in-memory backend on `/api/players`. */
+export const PLAYERS_DATA: Array<Player> = [
     {
         id: 1,
         firstName: 'Lionel',
@@ -210,6 +214,8 @@ export class FilterTableComponent
         lastName: string
         firstName: string
     }>(this.initialSearchParams)
+    private httpClient = inject(HttpClient)
+    private injector = inject(Injector)
     private refreshPlayers$: BehaviorSubject<void> = new BehaviorSubject<void>(void 0)
     public players$: Observable<PagedAsyncResult<Player, PlayerFilters>> = combineLatest([
         this.page$,
@@ -219,8 +225,7 @@ export class FilterTableComponent
     ]).pipe(
         switchMap(([page, pageSize, searchParameters]) =>
             this.trackPending(
-                this.mockPagedPlayers(page, pageSize, searchParameters).pipe(
-                    delay(1000),
+                this.getPagedPlayers(page, pageSize, searchParameters).pipe(
                     tap((items) => (this.playersToSave = [...(items.entity.items as Player[])]))
                 )
             )
@@ -233,33 +238,19 @@ export class FilterTableComponent
         super()
     }
 
-    private mockPagedPlayers(
+    private getPagedPlayers(
         page: number,
         pageSize: number,
-        filters?: PlayerFilters
+        filters: PlayerFilters
     ): Observable<PagedAsyncResult<Player, PlayerFilters>> {
-        const players = !filters
-            ? PLAYERS_DATA
-            : PLAYERS_DATA.filter((value: Player) => {
-                  return (
-                      (!filters.firstName ||
-                          value.firstName.toLowerCase().startsWith(filters.firstName?.toLowerCase() ?? '')) &&
-                      (!filters.lastName ||
-                          value.lastName.toLowerCase().startsWith(filters.lastName?.toLowerCase() ?? ''))
-                  )
-              })
-        const playersPage = players.slice((page - 1) * pageSize, (page - 1) * pageSize + pageSize)
-        return of({
-            pageSize: pageSize,
-            pageIndex: page,
-            totalPages: Math.ceil(players.length / pageSize),
-            totalCount: players.length,
-            hasPreviousPage: false,
-            hasNextPage: true,
-            items: playersPage
-        }).pipe(
-            expectPagedAsyncResultHttpSuccess<Player, PlayerFilters>(filters),
-            expectPagedAsyncResultHttpError<Player, PlayerFilters>(DEFAULT_HTTP_ERROR_CODES, filters)
+        return handlePagedAsyncResult<Player, PlayerFilters>(
+            this.httpClient.get<PagedEntitiesDto<Player>>('/api/players', {
+                params: serializePagedRequest({ ...createPagedRequest({ ...filters }, pageSize), pageIndex: page })
+            }),
+            DEFAULT_HTTP_ERROR_CODES,
+            filters,
+            // The players are loaded in a switchMap, outside the injection context of the component.
+            { injector: this.injector }
         )
     }
 
@@ -301,16 +292,16 @@ export class FilterTableComponent
     }
 
     public addPlayer(): void {
-        PLAYERS_DATA.push({
-            id: 7,
-            firstName: 'Dries',
-            lastName: 'Mertens',
-            birthDate: DateTime.fromObject({ year: 1987, month: 5, day: 6 }),
-            age: 36,
-            income: 19000,
-            bonus: 35,
-            active: true
-        })
-        this.refreshPlayers$.next()
+        this.httpClient
+            .post<Player>('/api/players', {
+                firstName: 'Dries',
+                lastName: 'Mertens',
+                birthDate: DateTime.fromObject({ year: 1987, month: 5, day: 6 }),
+                age: 36,
+                income: 19000,
+                bonus: 35,
+                active: true
+            })
+            .subscribe(() => this.refreshPlayers$.next())
     }
 }
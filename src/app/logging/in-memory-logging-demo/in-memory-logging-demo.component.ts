@@ -1,7 +1,7 @@
-import { Component, inject, TrackByFunction } from '@angular/core'
+import { Component, computed, inject, Signal, TrackByFunction } from '@angular/core'
 import { MatButtonModule } from '@angular/material/button'
 import { MatListModule } from '@angular/material/list'
-import { InMemoryLogger, PPW_LOGGER, provideInMemoryLogger } from '@ppwcode/ng-common'
+import { InMemoryLogger, PPW_LOGGER, provideInMemoryLogger, PpwLogViewerComponent } from '@ppwcode/ng-common'
 import { MessageBarComponent, PpwTableModule, PpwTableOptions, Severity } from '@ppwcode/ng-common-components'
 
 export interface LogLine extends Record<string, unknown> {
@@ -11,13 +11,13 @@ export interface LogLine extends Record<string, unknown> {
 
 @Component({
     selector: 'ppw-in-memory-logging-demo',
-    imports: [MatButtonModule, MatListModule, PpwTableModule, MessageBarComponent],
+    imports: [MatButtonModule, MatListModule, PpwTableModule, MessageBarComponent, PpwLogViewerComponent],
     templateUrl: './in-memory-logging-demo.component.html',
     styleUrl: './in-memory-logging-demo.component.scss',
-    providers: [provideInMemoryLogger({ debug: true })]
+    providers: [provideInMemoryLogger({ debug: true, maxSize: 20 })]
 })
 export class InMemoryLoggingDemoComponent {
-    private logger: InMemoryLogger = inject(PPW_LOGGER) as InMemoryLogger
+    public logger: InMemoryLogger = inject(PPW_LOGGER) as InMemoryLogger
 
     private getLogLineStyles = (logLine: LogLine): Record<string, unknown> => {
         let styles: Record<string, unknown> = {}
@@ -51,12 +51,12 @@ export class InMemoryLoggingDemoComponent {
         }
     }
 
-    public get logLines(): Array<LogLine> {
-        return this.logger.logLines.map((ll) => ({
+    public logLines: Signal<Array<LogLine>> = computed(() =>
+        this.logger.logLinesSignal().map((ll) => ({
             type: ll.type,
             message: ll.message
         }))
-    }
+    )
 
     public addLogLine(type: 'debug' | 'info' | 'log' | 'warn' | 'error'): void {
         switch (type) {